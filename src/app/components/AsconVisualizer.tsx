@@ -1,67 +1,623 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { encryptAsconForVisualization, decryptAsconForVisualization, StateStep, bytesToText, hexToBytes, ROUND_CONSTANTS } from '../lib/ascon';
+import { StateStep, ASCON_VARIANTS, DEFAULT_VARIANT, AsconVariantName, NONCE_BYTES, MAC_KEY_BYTES, deriveBytesFromText, TextKeyDerivation, bytesToHex, CXOF_MAX_CUSTOMIZATION_BYTES, MAC_TAG_BYTES, PRF_SHORT_MAX_BYTES, MacVariant, wordToHex, hexToBytes, isValidHex, textToBytes, bytesToText, LINEAR_ROTATIONS } from '../lib/ascon';
+import { TraceRequest, TraceWorkerRequest, TraceWorkerResponse, TRACE_STEP_WINDOW, MAX_OUTPUT_BYTES, maxMacOutputBytes } from '../lib/traceRequest';
+import { importTrace, TraceFileFormat, TRACE_EXPORT_MAX_STEPS } from '../lib/traceFile';
+import { formatVisualizerLink, linkFromTraceRequest, LINK_MAX_LENGTH, VisualizerLink, VisualizerMode } from '../lib/visualizerLink';
+import { AvalancheTarget, flipBit, hammingWeight, stateDifference } from '../lib/avalanche';
+import { analyzeNonceReuse, applyCrib, dragCrib } from '../lib/nonceReuse';
 
-export default function AsconVisualizer() {
-  const [input, setInput] = useState('');
-  const [key, setKey] = useState('ASCON visualization key');
-  const [nonce, setNonce] = useState('ASCON nonce');
+// Labels that differ between modes
+const MODE_LABELS: Record<VisualizerMode, {
+  button: string;
+  input: string;
+  placeholder: string;
+  result: string;
+  title: string;
+  prompt: string;
+}> = {
+  encrypt: {
+    button: 'Encrypt',
+    input: 'Your Secret Message',
+    placeholder: 'Type something to encrypt...',
+    result: 'Generated Ciphertext (hex)',
+    title: 'Encryption',
+    prompt: 'Enter your message to encrypt'
+  },
+  decrypt: {
+    button: 'Decrypt',
+    input: 'Ciphertext (in hex)',
+    placeholder: 'Paste hex ciphertext to decrypt...',
+    result: 'Decrypted Message',
+    title: 'Decryption',
+    prompt: 'Enter ciphertext (hex) to decrypt'
+  },
+  hash: {
+    button: 'Hash',
+    input: 'Message to Hash',
+    placeholder: 'Type something to hash...',
+    result: 'Ascon-Hash256 Digest (hex)',
+    title: 'Hashing',
+    prompt: 'Enter a message to hash'
+  },
+  xof: {
+    button: 'XOF',
+    input: 'Message to Expand',
+    placeholder: 'Type something to feed the XOF...',
+    result: 'XOF Output (hex)',
+    title: 'Extendable Output',
+    prompt: 'Enter a message to derive output from'
+  },
+  mac: {
+    button: 'MAC / PRF',
+    input: 'Message to Authenticate',
+    placeholder: 'Type something to authenticate...',
+    result: 'Tag / PRF Output (hex)',
+    title: 'MAC / PRF',
+    prompt: 'Enter a message to authenticate'
+  },
+  nonceReuse: {
+    button: 'Nonce Reuse',
+    input: 'First Message (P1)',
+    placeholder: 'Type the first message, e.g. Attack at dawn...',
+    result: 'Ciphertext of P1 (hex)',
+    title: 'Nonce Reuse Attack',
+    prompt: 'Enter two messages to encrypt under the same key and nonce'
+  },
+  tamper: {
+    button: 'Tamper Lab',
+    input: 'Original Ciphertext (in hex)',
+    placeholder: 'Paste a ciphertext from encryption, tag included...',
+    result: 'Decrypted Tampered Message',
+    title: 'Tampering',
+    prompt: 'Enter a ciphertext (hex) to tamper with'
+  }
+};
+
+// Inputs of a decryption that the tamper lab can edit
+type TamperField = 'ciphertext' | 'associatedData';
+
+// Nonce the visualizer starts with; a fixed nonce is only safe for a single message
+const DEFAULT_NONCE = '101112131415161718191a1b1c1d1e1f';
+
+// Names of the encryption inputs a bit can be flipped in
+const AVALANCHE_TARGET_LABELS: Record<AvalancheTarget, string> = {
+  plaintext: 'Plaintext',
+  key: 'Key',
+  nonce: 'Nonce',
+  associatedData: 'Associated data'
+};
+
+const AVALANCHE_PLOT_POINTS = 600; // Most points drawn in the Hamming distance plot
+
+// Longest text shown in full; longer texts show only their end so huge inputs render quickly
+const DISPLAY_LIMIT = 2000;
+
+const LINK_UPDATE_DELAY = 300; // ms after the last change before the address bar is updated
+
+
+// Opens on the settings of a deep link, if the page was loaded from one
+export default function AsconVisualizer({ link = {} }: { link?: VisualizerLink }) {
+  const [input, setInput] = useState(link.input ?? '');
+  const [inputFormat, setInputFormat] = useState<'text' | 'hex'>(link.inputFormat ?? 'text');
+  const [key, setKey] = useState(link.key ?? '000102030405060708090a0b0c0d0e0f');
+  const [nonce, setNonce] = useState(link.nonce ?? DEFAULT_NONCE);
+  const [keyFormat, setKeyFormat] = useState<'hex' | 'text'>(link.keyFormat ?? 'hex');
+  const [textDerivation, setTextDerivation] = useState<TextKeyDerivation>(link.textDerivation ?? 'pad');
+  const [associatedData, setAssociatedData] = useState(link.associatedData ?? '');
+  const [associatedDataFormat, setAssociatedDataFormat] = useState<'text' | 'hex'>(link.associatedDataFormat ?? 'text');
+  const [xofVariant, setXofVariant] = useState<'xof' | 'cxof'>(link.xofVariant ?? 'xof');
+  const [outputLength, setOutputLength] = useState(link.outputLength ?? 32);
+  const [customization, setCustomization] = useState(link.customization ?? '');
+  const [macVariant, setMacVariant] = useState<MacVariant>(link.macVariant ?? 'Ascon-Mac');
+  const [macOutputLength, setMacOutputLength] = useState(link.macOutputLength ?? MAC_TAG_BYTES);
+  const [variant, setVariant] = useState<AsconVariantName>(link.variant ?? DEFAULT_VARIANT);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const [steps, setSteps] = useState<StateStep[]>([]);
-  const [animationSpeed, setAnimationSpeed] = useState(1000); // ms per step
+  const [stepCount, setStepCount] = useState(0);
+  const [finalStep, setFinalStep] = useState<StateStep | null>(null);
+  const [traceProgress, setTraceProgress] = useState<number | null>(null); // Fraction of a slow trace computed so far
+  const [stepsVersion, setStepsVersion] = useState(0); // Bumped whenever steps arrive from the worker
+  const [animationSpeed, setAnimationSpeed] = useState(link.animationSpeed ?? 1000); // ms per step
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [mode, setMode] = useState<'encrypt' | 'decrypt'>('encrypt');
-  const [ciphertext, setCiphertext] = useState('');
+  const [mode, setMode] = useState<VisualizerMode>(link.mode ?? 'encrypt');
   const [result, setResult] = useState('');
+  const [selectedColumn, setSelectedColumn] = useState(63);
+  const [compareEnabled, setCompareEnabled] = useState(false);
+  const [flipTarget, setFlipTarget] = useState<AvalancheTarget>('plaintext');
+  const [flipBitIndex, setFlipBitIndex] = useState(0);
+  const [distances, setDistances] = useState<number[] | null>(null); // Hamming distance of the two traces per step
+  const [secondMessage, setSecondMessage] = useState(link.secondMessage ?? 'Retreat to the hills');
+  const [crib, setCrib] = useState('');
+  const [comparisonFinalStep, setComparisonFinalStep] = useState<StateStep | null>(null);
+  const [tamperedCiphertext, setTamperedCiphertext] = useState(link.mode === 'tamper' ? link.input ?? '' : ''); // Edited copy of the ciphertext (hex)
+  const [tamperedAssociatedData, setTamperedAssociatedData] = useState(''); // Edited copy of the associated data (hex)
+  const [selectedTamperByte, setSelectedTamperByte] = useState<{ field: TamperField; index: number } | null>(null);
+  const [importedFile, setImportedFile] = useState<{ name: string } | null>(null); // Trace file shown instead of a computed trace
+  const [traceError, setTraceError] = useState(''); // Why the last trace could not be computed
+  const [traceFileError, setTraceFileError] = useState('');
+  const [linkCopyStatus, setLinkCopyStatus] = useState<'copied' | 'failed' | null>(null);
   const animationRef = useRef<NodeJS.Timeout | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0); // Id of the latest trace request; responses to older ones are stale
+  const shownRequestIdRef = useRef(-1); // Id of the trace currently in the player
+  const isGeneratingRef = useRef(false);
+  const stepWindowsRef = useRef(new Map<number, StateStep[]>()); // Steps received so far, by window
+  const comparisonWindowsRef = useRef(new Map<number, StateStep[]>()); // Steps of the flipped-bit trace, by window
+  const requestedWindowsRef = useRef(new Set<number>());
+  const importedInputsRef = useRef<string | null>(null); // Inputs restored from the imported trace file
+  const pendingStepIndexRef = useRef(link.stepIndex ?? null); // Step of a deep link, shown once its trace is ready
+  const traceFileInputRef = useRef<HTMLInputElement>(null);
 
-  // Generate steps when input changes
-  useEffect(() => {
-    if (mode === 'encrypt' && input) {
-      const encryptionSteps = encryptAsconForVisualization(input, key, nonce);
-      setSteps(encryptionSteps);
-      setCurrentStepIndex(0);
-      
-      // Set the final ciphertext
-      if (encryptionSteps.length > 0) {
-        const finalStep = encryptionSteps[encryptionSteps.length - 1];
-        if (finalStep.ciphertext) {
-          setCiphertext(finalStep.ciphertext);
-          setResult(finalStep.ciphertext);
-        }
-      }
-    } else if (mode === 'decrypt' && input) {
-      try {
-        const decryptionSteps = decryptAsconForVisualization(input, key, nonce);
-        setSteps(decryptionSteps);
-        setCurrentStepIndex(0);
-        
-        // Set the final plaintext
-        if (decryptionSteps.length > 0) {
-          const finalStep = decryptionSteps[decryptionSteps.length - 1];
-          if (finalStep.plaintext) {
-            setResult(finalStep.plaintext);
-          }
-        }
-      } catch (error) {
-        console.error('Error decrypting:', error);
-        setSteps([]);
+  // Only the AEAD modes take a nonce and associated data
+  const isAeadMode = mode === 'encrypt' || mode === 'decrypt' || mode === 'nonceReuse' || mode === 'tamper';
+
+  // Modes whose trace is an encryption (the nonce-reuse demo encrypts its first message)
+  const isEncryptMode = mode === 'encrypt' || mode === 'nonceReuse';
+
+  // Modes whose trace is a decryption (the tamper lab decrypts the tampered ciphertext)
+  const isDecryptMode = mode === 'decrypt' || mode === 'tamper';
+  const aeadVariant = ASCON_VARIANTS[variant];
+
+  // Number of state words in the rate (the part that touches input and output)
+  const rateWords = isAeadMode ? aeadVariant.rateBytes / 8 : mode === 'mac' ? 4 : 1;
+
+  const associatedDataError = associatedDataFormat === 'hex' && !isValidHex(associatedData)
+    ? 'Associated data must be an even number of hex digits'
+    : '';
+
+  // Encryption can also take its message as hex, for bytes that are not valid UTF-8 text
+  const isHexMessage = mode === 'encrypt' && inputFormat === 'hex';
+  const messageError = isHexMessage && !isValidHex(input) ? 'The message must be an even number of hex digits' : '';
+
+  // Exact key length for the current algorithm
+  const keyLength = mode === 'mac' ? MAC_KEY_BYTES : aeadVariant.keyBytes;
+
+  // Helper function to check a hex key or nonce for charset and exact length
+  const getHexError = (value: string, length: number, name: string) => {
+    if (!/^[0-9a-fA-F]*$/.test(value)) return `${name} may only contain hex digits 0-9 and a-f`;
+    if (value.length !== 2 * length) {
+      return `${name} must be exactly ${length} bytes (${2 * length} hex digits), got ${value.length} digits`;
+    }
+    return '';
+  };
+
+  const keyError = keyFormat === 'hex' ? getHexError(key, keyLength, 'Key') : '';
+  const nonceError = keyFormat === 'hex' ? getHexError(nonce, NONCE_BYTES, 'Nonce') : '';
+
+  // First problem with the keyed inputs of the current mode, if any
+  const keyedInputError = isAeadMode
+    ? keyError || nonceError || associatedDataError
+    : mode === 'mac' ? keyError : '';
+
+  // A ciphertext to decrypt is hex ending in the tag, so it is at least as long as the tag
+  const isDecryptableHex = (value: string) => isValidHex(value) && value.length >= 2 * aeadVariant.tagBytes;
+  const ciphertextError = isDecryptMode && input && !(isDecryptableHex(input) && (mode !== 'tamper' || isDecryptableHex(tamperedCiphertext)))
+    ? `The ciphertext must be an even number of hex digits and at least ${aeadVariant.tagBytes} bytes long, the tag included`
+    : '';
+
+  // First problem that keeps the current inputs from being traced, if any
+  const parameterError = ciphertextError || messageError || keyedInputError;
+
+  // Key or nonce bytes as loaded into the state (hex as entered, text padded or hashed)
+  const getKeyBytes = (value: string, length: number) => {
+    return keyFormat === 'hex' ? hexToBytes(value) : deriveBytesFromText(value, length, textDerivation);
+  };
+
+  // Associated data as passed to the cipher (text, or raw bytes when entered as hex)
+  const getAssociatedData = () => {
+    return associatedDataFormat === 'hex' ? hexToBytes(associatedData) : associatedData;
+  };
+
+  // Associated data as bytes, whichever way it was entered
+  const associatedDataBytes = useMemo(
+    () => associatedDataFormat === 'hex' ? hexToBytes(associatedData) : textToBytes(associatedData),
+    [associatedData, associatedDataFormat]
+  );
+
+  // Message bytes, whichever way they were entered
+  const inputBytes = useMemo(
+    () => isHexMessage && !messageError ? hexToBytes(input) : textToBytes(input),
+    [input, isHexMessage, messageError]
+  );
+
+  // Avalanche comparison: encryption traced a second time with one input bit flipped
+  const isFlipping = mode === 'encrypt' && compareEnabled;
+
+  // Modes that trace a second run next to the first and diff their states
+  const isComparing = isFlipping || mode === 'tamper';
+
+  // Length in bits of the input the flipped bit is taken from
+  const getFlipTargetBits = () => {
+    switch (flipTarget) {
+      case 'plaintext':
+        return inputBytes.length * 8;
+      case 'key':
+        return keyLength * 8;
+      case 'nonce':
+        return NONCE_BYTES * 8;
+      case 'associatedData':
+        return associatedDataError ? 0 : associatedDataBytes.length * 8;
+    }
+  };
+
+  const flipTargetBits = isFlipping ? getFlipTargetBits() : 0;
+  const flipError = !isFlipping ? ''
+    : flipTargetBits === 0 ? `The ${AVALANCHE_TARGET_LABELS[flipTarget].toLowerCase()} is empty, so there is no bit to flip`
+    : flipBitIndex >= flipTargetBits ? `Pick a bit from 0 to ${flipTargetBits - 1}`
+    : '';
+
+  // Every input the trace depends on, as one value that changes whenever any of them does. The
+  // tampered copies only count in the tamper lab, where they are not derived from the other inputs.
+  const traceInputs = JSON.stringify([
+    input, inputFormat, key, nonce, keyFormat, textDerivation, associatedData, associatedDataFormat, xofVariant,
+    outputLength, customization, macVariant, macOutputLength, variant, mode, compareEnabled, flipTarget, flipBitIndex, secondMessage,
+    mode === 'tamper' ? [tamperedCiphertext, tamperedAssociatedData] : null
+  ]);
+
+  // Query string of a link that reopens the visualizer as it is now. Until a deep link's trace
+  // is ready, its step is kept, so the address bar does not lose it in the meantime.
+  const linkQuery = formatVisualizerLink({
+    mode, input, inputFormat, key, nonce, keyFormat, textDerivation, associatedData, associatedDataFormat, variant,
+    secondMessage, xofVariant, outputLength, customization, macVariant, macOutputLength, animationSpeed,
+    stepIndex: pendingStepIndexRef.current ?? currentStepIndex
+  });
+  const isLinkTooLong = linkQuery.length > LINK_MAX_LENGTH;
+
+  // Describe the traced algorithm for the current mode, so the worker can run it
+  const getTraceRequest = (): TraceRequest => {
+    switch (mode) {
+      case 'encrypt':
+      case 'nonceReuse':
+        return {
+          algorithm: 'encrypt',
+          input: isHexMessage ? inputBytes : input,
+          key: getKeyBytes(key, keyLength),
+          nonce: getKeyBytes(nonce, NONCE_BYTES),
+          associatedData: getAssociatedData(),
+          variant
+        };
+      case 'decrypt':
+        return {
+          algorithm: 'decrypt',
+          input,
+          key: getKeyBytes(key, keyLength),
+          nonce: getKeyBytes(nonce, NONCE_BYTES),
+          associatedData: getAssociatedData(),
+          variant
+        };
+      case 'tamper':
+        return {
+          algorithm: 'decrypt',
+          input: tamperedCiphertext,
+          key: getKeyBytes(key, keyLength),
+          nonce: getKeyBytes(nonce, NONCE_BYTES),
+          associatedData: hexToBytes(tamperedAssociatedData),
+          variant
+        };
+      case 'hash':
+        return { algorithm: 'hash', input };
+      case 'xof':
+        return xofVariant === 'cxof'
+          ? { algorithm: 'cxof', input, customization, outputLength }
+          : { algorithm: 'xof', input, outputLength };
+      case 'mac':
+        return { algorithm: 'mac', input, key: getKeyBytes(key, keyLength), variant: macVariant, outputLength: macOutputLength };
+    }
+  };
+
+  // The same encryption with the chosen bit flipped, when comparing, the second message under
+  // the same key and nonce in the nonce-reuse demo, or the untouched ciphertext in the tamper lab
+  const getComparisonRequest = (request: TraceRequest): TraceRequest | undefined => {
+    if (mode === 'tamper' && request.algorithm === 'decrypt') {
+      return { ...request, input, associatedData: getAssociatedData() };
+    }
+    if (request.algorithm !== 'encrypt') return undefined;
+    if (mode === 'nonceReuse') return { ...request, input: secondMessage };
+    if (!isFlipping || flipError) return undefined;
+    switch (flipTarget) {
+      case 'plaintext':
+        return { ...request, input: flipBit(inputBytes, flipBitIndex) };
+      case 'key':
+        return { ...request, key: flipBit(request.key, flipBitIndex) };
+      case 'nonce':
+        return { ...request, nonce: flipBit(request.nonce, flipBitIndex) };
+      case 'associatedData':
+        return { ...request, associatedData: flipBit(associatedDataBytes, flipBitIndex) };
+    }
+  };
+
+  // Final output of a trace: ciphertext, recovered plaintext or digest
+  const getFinalOutput = (step: StateStep | null) => {
+    if (!step) return '';
+    if (isEncryptMode) return step.ciphertext || '';
+    if (!isAeadMode) return step.digest || '';
+    return step.plaintext || '';
+  };
+
+  // Helper function to store a window of steps received from the worker
+  const storeSteps = (start: number, steps: StateStep[], comparisonSteps?: StateStep[]) => {
+    const windowIndex = Math.floor(start / TRACE_STEP_WINDOW);
+    stepWindowsRef.current.set(windowIndex, steps);
+    if (comparisonSteps) comparisonWindowsRef.current.set(windowIndex, comparisonSteps);
+    setStepsVersion(version => version + 1);
+  };
+
+  // Handle a message from the trace worker, ignoring answers to stale requests
+  const handleWorkerMessage = (event: MessageEvent<TraceWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'steps') {
+      if (message.requestId === shownRequestIdRef.current) storeSteps(message.start, message.steps, message.comparisonSteps);
+      return;
+    }
+    if (message.type === 'export') {
+      if (message.requestId !== shownRequestIdRef.current) return;
+      if (message.content === undefined) {
+        setTraceFileError(message.message ?? 'The trace could not be exported');
+      } else {
+        downloadTraceFile(message.content, message.format);
       }
+      return;
+    }
+    if (message.requestId !== requestIdRef.current) return;
+
+    if (message.type === 'progress') {
+      setTraceProgress(message.fraction);
+    } else if (message.type === 'ready') {
+      isGeneratingRef.current = false;
+      shownRequestIdRef.current = message.requestId;
+      stepWindowsRef.current.clear();
+      comparisonWindowsRef.current.clear();
+      requestedWindowsRef.current.clear();
+      storeSteps(0, message.steps, message.comparisonSteps);
+      setStepCount(message.length);
+      setFinalStep(message.finalStep);
+      setDistances(message.distances ?? null);
+      setComparisonFinalStep(message.comparisonFinalStep ?? null);
+      setTraceProgress(null);
+      setTraceError('');
+      setCurrentStepIndex(Math.max(0, Math.min(pendingStepIndexRef.current ?? 0, message.length - 1)));
+      pendingStepIndexRef.current = null;
+
+      // Set the final ciphertext, plaintext or digest (empty when decryption is rejected)
+      setResult(getFinalOutput(message.finalStep));
     } else {
-      setSteps([]);
-      setCurrentStepIndex(0);
+      isGeneratingRef.current = false;
+      clearTrace();
       setResult('');
+      setTraceError(message.message);
     }
-  }, [input, key, nonce, mode]);
+  };
+
+  // Handle a worker that crashed outside its own error handling (e.g. out of memory) by
+  // replacing it and reporting what happened
+  const handleWorkerError = (event: ErrorEvent) => {
+    event.preventDefault();
+    workerRef.current?.terminate();
+    startWorker();
+    isGeneratingRef.current = false;
+    clearTrace();
+    setResult('');
+    setTraceError(event.message || 'The trace worker stopped unexpectedly');
+  };
+
+  // Helper function to save an exported trace through a temporary download link
+  const downloadTraceFile = (content: string, format: TraceFileFormat) => {
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ascon-${mode}-trace.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Keep the message handler current, since it reads the mode of the latest render
+  const workerMessageHandlerRef = useRef(handleWorkerMessage);
+  workerMessageHandlerRef.current = handleWorkerMessage;
+  const workerErrorHandlerRef = useRef(handleWorkerError);
+  workerErrorHandlerRef.current = handleWorkerError;
+
+  // Helper function to start a fresh trace worker
+  const startWorker = () => {
+    const worker = new Worker(new URL('../lib/trace.worker.ts', import.meta.url));
+    worker.onmessage = event => workerMessageHandlerRef.current(event);
+    worker.onerror = event => workerErrorHandlerRef.current(event);
+    workerRef.current = worker;
+  };
+
+  // Helper function to send a message to the trace worker
+  const postToWorker = (message: TraceWorkerRequest) => {
+    workerRef.current?.postMessage(message);
+  };
 
-  // Handle play/pause animation
+  // Drop any pending request and empty the player
+  const clearTrace = () => {
+    requestIdRef.current++;
+    if (isGeneratingRef.current) {
+      workerRef.current?.terminate();
+      startWorker();
+      isGeneratingRef.current = false;
+    }
+    shownRequestIdRef.current = -1;
+    pendingStepIndexRef.current = null;
+    stepWindowsRef.current.clear();
+    comparisonWindowsRef.current.clear();
+    requestedWindowsRef.current.clear();
+    setStepCount(0);
+    setFinalStep(null);
+    setDistances(null);
+    setComparisonFinalStep(null);
+    setTraceProgress(null);
+    setTraceError('');
+    setCurrentStepIndex(0);
+  };
+
+  // Ask the worker for a new trace. A still-running older request is cancelled by
+  // replacing the worker; the shown trace keeps playing from its fetched steps meanwhile.
+  const requestTrace = () => {
+    let request: TraceRequest;
+    let comparison: TraceRequest | undefined;
+    try {
+      request = getTraceRequest();
+      comparison = getComparisonRequest(request);
+    } catch (error) {
+      clearTrace();
+      setTraceError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (isGeneratingRef.current) {
+      workerRef.current?.terminate();
+      startWorker();
+    }
+    requestIdRef.current++;
+    isGeneratingRef.current = true;
+    postToWorker({ type: 'generate', requestId: requestIdRef.current, request, comparison });
+  };
+
+  // Apply the settings of a deep link or trace file, leaving those it does not set as they are
+  const applyLink = (link: VisualizerLink) => {
+    if (link.mode !== undefined) setMode(link.mode);
+    if (link.input !== undefined) setInput(link.input);
+    if (link.inputFormat !== undefined) setInputFormat(link.inputFormat);
+    if (link.key !== undefined) setKey(link.key);
+    if (link.nonce !== undefined) setNonce(link.nonce);
+    if (link.keyFormat !== undefined) setKeyFormat(link.keyFormat);
+    if (link.textDerivation !== undefined) setTextDerivation(link.textDerivation);
+    if (link.associatedData !== undefined) setAssociatedData(link.associatedData);
+    if (link.associatedDataFormat !== undefined) setAssociatedDataFormat(link.associatedDataFormat);
+    if (link.variant !== undefined) setVariant(link.variant);
+    if (link.secondMessage !== undefined) setSecondMessage(link.secondMessage);
+    if (link.xofVariant !== undefined) setXofVariant(link.xofVariant);
+    if (link.outputLength !== undefined) setOutputLength(link.outputLength);
+    if (link.customization !== undefined) setCustomization(link.customization);
+    if (link.macVariant !== undefined) setMacVariant(link.macVariant);
+    if (link.macOutputLength !== undefined) setMacOutputLength(link.macOutputLength);
+    if (link.animationSpeed !== undefined) setAnimationSpeed(link.animationSpeed);
+    if (link.stepIndex !== undefined) pendingStepIndexRef.current = link.stepIndex;
+    setTamperedCiphertext(link.mode === 'tamper' ? link.input ?? '' : '');
+    setSelectedTamperByte(null);
+  };
+
+  // Read a JSON or CSV trace file and hand its steps to the worker, which serves them like a
+  // computed trace. Any trace still being generated is cancelled.
+  const handleImportTrace = async (file: File) => {
+    setTraceFileError('');
+    try {
+      const { request, steps } = importTrace(await file.text());
+      applyLink(linkFromTraceRequest(request));
+      setCompareEnabled(false); // A trace file holds a single run
+      setIsPlaying(false);
+      importedInputsRef.current = null;
+      setImportedFile({ name: file.name });
+
+      if (isGeneratingRef.current) {
+        workerRef.current?.terminate();
+        startWorker();
+        isGeneratingRef.current = false;
+      }
+      requestIdRef.current++;
+      postToWorker({ type: 'load', requestId: requestIdRef.current, request, steps });
+    } catch (error) {
+      setTraceFileError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Copy a link to the current step, with the inputs that lead to it
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${linkQuery}`);
+      setLinkCopyStatus('copied');
+    } catch {
+      setLinkCopyStatus('failed'); // The address bar still holds the link
+    }
+    setTimeout(() => setLinkCopyStatus(null), 2000);
+  };
+
+  // Ask the worker for the trace in the player as a file
+  const handleExportTrace = (format: TraceFileFormat) => {
+    setTraceFileError('');
+    postToWorker({ type: 'export', requestId: shownRequestIdRef.current, format });
+  };
+
+  // Start the tamper lab's associated data over whenever the original changes
+  useEffect(() => {
+    if (!associatedDataError) setTamperedAssociatedData(bytesToHex(associatedDataBytes));
+  }, [associatedDataBytes, associatedDataError]);
+
+  // Start the trace worker, and stop it when the visualizer goes away
+  useEffect(() => {
+    startWorker();
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Keep the trace actions current, since they read the inputs of the latest render
+  const requestTraceRef = useRef(requestTrace);
+  requestTraceRef.current = requestTrace;
+  const clearTraceRef = useRef(clearTrace);
+  clearTraceRef.current = clearTrace;
+
+  // Generate steps when input changes. An imported trace stays in the player until one of the
+  // inputs restored from its file is edited.
+  useEffect(() => {
+    if (importedFile) {
+      if (importedInputsRef.current === null) {
+        importedInputsRef.current = traceInputs;
+        return;
+      }
+      if (importedInputsRef.current === traceInputs) return;
+      setImportedFile(null); // Runs this effect again without the imported trace
+      return;
+    }
+    if (parameterError || !input) {
+      clearTraceRef.current();
+      setResult('');
+    } else {
+      requestTraceRef.current();
+    }
+  }, [traceInputs, input, parameterError, importedFile]);
+
+  // Fetch the window holding the current step and prefetch the next one, so playback
+  // never waits on the worker. Only the windows next to the current one are kept.
   useEffect(() => {
-    if (isPlaying && steps.length > 0) {
+    if (stepCount === 0 || shownRequestIdRef.current < 0) return;
+    const currentWindow = Math.floor(currentStepIndex / TRACE_STEP_WINDOW);
+    const lastWindow = Math.floor((stepCount - 1) / TRACE_STEP_WINDOW);
+
+    for (const windowIndex of [currentWindow, currentWindow + 1]) {
+      if (windowIndex > lastWindow) continue;
+      if (stepWindowsRef.current.has(windowIndex) || requestedWindowsRef.current.has(windowIndex)) continue;
+      requestedWindowsRef.current.add(windowIndex);
+      postToWorker({
+        type: 'steps',
+        requestId: shownRequestIdRef.current,
+        start: windowIndex * TRACE_STEP_WINDOW,
+        count: TRACE_STEP_WINDOW
+      });
+    }
+
+    for (const windowIndex of stepWindowsRef.current.keys()) {
+      if (windowIndex < currentWindow - 1 || windowIndex > currentWindow + 1) {
+        stepWindowsRef.current.delete(windowIndex);
+        comparisonWindowsRef.current.delete(windowIndex);
+        requestedWindowsRef.current.delete(windowIndex);
+      }
+    }
+  }, [currentStepIndex, stepCount, stepsVersion]);
+
+  // Handle play/pause animation, waiting for steps that have not arrived from the worker yet
+  useEffect(() => {
+    const isStepLoaded = stepWindowsRef.current.has(Math.floor(currentStepIndex / TRACE_STEP_WINDOW));
+    if (isPlaying && stepCount > 0 && isStepLoaded) {
       animationRef.current = setTimeout(() => {
-        if (currentStepIndex < steps.length - 1) {
+        if (currentStepIndex < stepCount - 1) {
           setCurrentStepIndex(prev => prev + 1);
         } else {
           setIsPlaying(false);
@@ -74,22 +630,20 @@ export default function AsconVisualizer() {
         clearTimeout(animationRef.current);
       }
     };
-  }, [isPlaying, currentStepIndex, steps.length, animationSpeed]);
+  }, [isPlaying, currentStepIndex, stepCount, animationSpeed, stepsVersion]);
+
+  // Keep the address bar on a link to what is shown, so a reload or a shared URL opens the same
+  // step. Updates wait for a pause, since browsers limit how often the URL may be replaced.
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      window.history.replaceState(null, '', isLinkTooLong ? window.location.pathname : `?${linkQuery}`);
+    }, LINK_UPDATE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [linkQuery, isLinkTooLong]);
 
   const handlePlayPause = () => {
-    if (steps.length === 0 && input) {
-      if (mode === 'encrypt') {
-        const encryptionSteps = encryptAsconForVisualization(input, key, nonce);
-        setSteps(encryptionSteps);
-      } else {
-        try {
-          const decryptionSteps = decryptAsconForVisualization(input, key, nonce);
-          setSteps(decryptionSteps);
-        } catch (error) {
-          console.error('Error decrypting:', error);
-          return;
-        }
-      }
+    if (stepCount === 0 && input && !parameterError && !isGeneratingRef.current) {
+      requestTrace();
     }
     setIsPlaying(!isPlaying);
   };
@@ -100,7 +654,7 @@ export default function AsconVisualizer() {
   };
 
   const handleStepForward = () => {
-    if (currentStepIndex < steps.length - 1) {
+    if (currentStepIndex < stepCount - 1) {
       setCurrentStepIndex(currentStepIndex + 1);
     }
   };
@@ -111,31 +665,117 @@ export default function AsconVisualizer() {
     }
   };
 
-  const handleModeChange = (newMode: 'encrypt' | 'decrypt') => {
+  const handleModeChange = (newMode: VisualizerMode) => {
     if (newMode !== mode) {
       setMode(newMode);
       setInput('');
-      setSteps([]);
-      setCurrentStepIndex(0);
+      setTamperedCiphertext('');
+      setSelectedTamperByte(null);
+      clearTrace();
       setResult('');
       setIsPlaying(false);
     }
   };
 
+  // Draw a fresh 128-bit nonce, which is what every real message needs
+  const handleRandomNonce = () => {
+    setNonce(bytesToHex(crypto.getRandomValues(new Uint8Array(NONCE_BYTES))));
+  };
+
+  // Tamper lab: decrypt the ciphertext just produced, next to an editable copy of it
+  const handleTamperWithResult = () => {
+    setInput(result);
+    setTamperedCiphertext(result);
+    setTamperedAssociatedData(bytesToHex(associatedDataBytes));
+    setSelectedTamperByte(null);
+    setMode('tamper');
+    clearTrace();
+    setResult('');
+  };
+
+  // Handle input changes; in the tamper lab a new ciphertext also replaces the edited copy
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    if (mode === 'tamper') {
+      setTamperedCiphertext(value);
+      setSelectedTamperByte(null);
+    }
+  };
+
+  // Undo every edit made in the tamper lab
+  const handleResetTampering = () => {
+    setTamperedCiphertext(input);
+    setTamperedAssociatedData(bytesToHex(associatedDataBytes));
+  };
+
+  // Replace one byte of the tampered ciphertext or associated data
+  const setTamperedByte = (field: TamperField, index: number, value: number) => {
+    const hex = field === 'ciphertext' ? tamperedCiphertext : tamperedAssociatedData;
+    const updated = hex.substring(0, 2 * index) + value.toString(16).padStart(2, '0') + hex.substring(2 * index + 2);
+    if (field === 'ciphertext') {
+      setTamperedCiphertext(updated);
+    } else {
+      setTamperedAssociatedData(updated);
+    }
+  };
+
   const handleUseResult = () => {
     setInput(result);
+    setInputFormat('text');
     setMode(mode === 'encrypt' ? 'decrypt' : 'encrypt');
-    setSteps([]);
-    setCurrentStepIndex(0);
+    clearTrace();
     setResult('');
   };
 
+  // Keep only the end of texts longer than DISPLAY_LIMIT, where the latest bytes are
+  const truncateForDisplay = (text: string) => {
+    return text.length > DISPLAY_LIMIT ? `…${text.slice(-DISPLAY_LIMIT)}` : text;
+  };
+
+  // Steps only count the bytes processed so far; the running texts are read from the input and
+  // the result, which hold the whole message and output
+  const resultBytes = useMemo(() => textToBytes(result), [result]);
+
+  // Helper function to show the first `length` bytes of a message as text
+  const runningText = (bytes: Uint8Array, length: number) => {
+    return truncateForDisplay(bytesToText(bytes.subarray(0, length)));
+  };
+
+  // Helper function to show the first `length` bytes of a hex string
+  const runningHex = (hex: string, length: number) => {
+    return truncateForDisplay(hex.substring(0, 2 * length));
+  };
+
   // Format state for display
-  const formatStateWord = (word: number) => {
-    return '0x' + word.toString(16).padStart(16, '0');
+  const formatStateWord = (word: bigint) => {
+    return wordToHex(word);
   };
 
-  const currentStep = steps[currentStepIndex];
+  // The current step, once its window has arrived from the worker
+  const currentStep = currentStepIndex < stepCount
+    ? stepWindowsRef.current.get(Math.floor(currentStepIndex / TRACE_STEP_WINDOW))?.[currentStepIndex % TRACE_STEP_WINDOW]
+    : undefined;
+
+  // The same step of the flipped-bit or untampered trace, when comparing
+  const comparisonStep = currentStep
+    ? comparisonWindowsRef.current.get(Math.floor(currentStepIndex / TRACE_STEP_WINDOW))?.[currentStepIndex % TRACE_STEP_WINDOW]
+    : undefined;
+
+  // Hamming distances averaged over at most AVALANCHE_PLOT_POINTS buckets, as [first step, distance]
+  const avalanchePlot = useMemo(() => {
+    if (!distances || distances.length === 0) return [];
+    const bucketSize = Math.ceil(distances.length / AVALANCHE_PLOT_POINTS);
+    const points: [number, number][] = [];
+    for (let start = 0; start < distances.length; start += bucketSize) {
+      const bucket = distances.slice(start, start + bucketSize);
+      points.push([start, bucket.reduce((sum, distance) => sum + distance, 0) / bucket.length]);
+    }
+    return points;
+  }, [distances]);
+
+  // Decryption that failed the tag check, which releases no plaintext
+  const tagVerification = finalStep?.verification;
+  const isRejected = isDecryptMode && tagVerification?.valid === false;
 
   // Get a simple description for the current step
   const getSimpleDescription = () => {
@@ -145,15 +785,48 @@ export default function AsconVisualizer() {
     const substep = currentStep.substep;
     
     if (stepInfo.includes("Initial state")) {
-      return mode === 'encrypt' 
-        ? "Starting with an empty container" 
-        : "Starting the decryption process";
+      return isDecryptMode
+        ? "Starting the decryption process"
+        : "Starting with an empty container";
+    }
+    if (/initialization with (hash|XOF|CXOF) IV/.test(stepInfo)) {
+      return "Loading the fixed IV; no key is needed to hash";
+    }
+    if (stepInfo.includes("Absorbing customization")) {
+      return "Absorbing your customization string so its output is unrelated to any other";
+    }
+    if (stepInfo.includes("Absorbing message")) {
+      return "Soaking up the next block of your message";
+    }
+    if (stepInfo.includes("Squeezing digest")) {
+      return "Reading 8 bytes of the digest out of the state";
+    }
+    if (stepInfo.includes("Squeezing output")) {
+      return "Emitting the next block of output";
+    }
+    if (stepInfo.includes("initialization with IV and key") || stepInfo.includes("initialization with IV, key and message")) {
+      return "Loading your secret key so only key holders can compute the tag";
     }
     if (stepInfo.includes("initialization with IV")) {
-      return mode === 'encrypt'
+      return isEncryptMode
         ? "Adding your secret key and a unique identifier to the mix"
         : "Setting up the decryption with your key and identifier";
     }
+    if (stepInfo.includes("Initialization - XOR with key")) {
+      return "Mixing your secret key in once more to seal the starting state";
+    }
+    if (stepInfo.includes("Processing associated data")) {
+      return "Mixing in the public header, which is protected but not hidden";
+    }
+    if (stepInfo.includes("Permutation after associated data")) {
+      return "Stirring the header into the whole state";
+    }
+    if (stepInfo.includes("Domain separation")) {
+      return "Flipping one bit to mark where the message begins";
+    }
+    if (stepInfo.includes("Padding")) {
+      return "Marking the end of the message so its length is unambiguous";
+    }
     if (stepInfo.includes("Permutation") && substep === "Addition of round constant") {
       return "Adding special numbers to make the encryption stronger";
     }
@@ -179,114 +852,575 @@ export default function AsconVisualizer() {
       return "One last mixing round to secure everything";
     }
     if (stepInfo.includes("Final state")) {
-      return mode === 'encrypt'
-        ? "Your message is now fully encrypted and authenticated!"
+      if (mode === 'hash') return "Your message has been condensed into a 256-bit fingerprint!";
+      if (mode === 'xof') return `Your message has been expanded into ${outputLength} bytes of output!`;
+      if (mode === 'mac') return macVariant === 'Ascon-Mac'
+        ? "Your message now has a tag that only someone with the key could compute!"
+        : `Your message has been turned into ${macOutputLength} pseudorandom bytes under your key!`;
+      if (isEncryptMode) return "Your message is now fully encrypted and authenticated!";
+      return currentStep.verification?.valid === false
+        ? "The tag does not match, so the message is rejected and no plaintext is released!"
         : "Your message has been successfully decrypted!";
     }
     
     return stepInfo;
   };
 
-  // For rendering individual characters with their transformations
-  const renderCharTransformation = (index: number) => {
-    if (!currentStep) return null;
+  // Helper function to show a byte as a character, or a dot when it is not printable
+  const toPrintableChar = (byte: number) => {
+    return byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '·';
+  };
+
+  // Show the current rate block byte by byte: message bytes with their transformation, then padding
+  const renderCharTransformation = () => {
+    if (!currentStep?.rateByteKinds || !isAeadMode) return null;
+    if (!/Processing (plaintext|ciphertext)|Padding last block/.test(currentStep.step)) return null;
     
-    if (mode === 'encrypt') {
-      // For encryption: show plaintext → ciphertext
-      if (currentStep.plaintextChar && currentStep.ciphertextChar && 
-          currentStep.step.includes("Processing plaintext") && 
-          currentStep.roundNumber === index) {
-        return (
-          <motion.div 
-            className="flex flex-col items-center justify-center bg-green-50 dark:bg-green-900/20 p-2 rounded"
-            key={`transform-${index}`}
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            transition={{ duration: 0.5 }}
-          >
-            <div className="text-sm font-semibold mb-1">Current Transformation</div>
-            <div className="flex items-center gap-3">
-              <div className="bg-blue-100 dark:bg-blue-800 p-2 rounded text-center">
-                <div className="text-xs text-gray-500 mb-1">Plaintext</div>
-                <div className="font-mono">
-                  <span className="text-xl">{currentStep.plaintextChar}</span>
-                  <div className="text-xs mt-1">Hex: {currentStep.plaintextHex}</div>
-                </div>
-              </div>
-              <motion.div 
-                animate={{ x: [0, 10, 0] }}
-                transition={{ repeat: Infinity, duration: 1.5, repeatType: "reverse" }}
+    const isPadding = currentStep.step.includes("Padding");
+    const inputHex = isEncryptMode ? currentStep.plaintextHex : currentStep.ciphertextHex;
+    const outputHex = isEncryptMode ? currentStep.ciphertextHex : currentStep.plaintextHex;
+    const inputBytes = !isPadding && inputHex ? hexToBytes(inputHex) : new Uint8Array(0);
+    const outputBytes = !isPadding && outputHex ? hexToBytes(outputHex) : new Uint8Array(0);
+    const firstPadding = currentStep.rateByteKinds.indexOf('padding');
+    
+    return (
+      <motion.div 
+        className="bg-green-50 dark:bg-green-900/20 p-2 rounded"
+        key={`transform-${currentStepIndex}`}
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="text-sm font-semibold mb-1">
+          Block {(currentStep.roundNumber ?? 0) + 1}: {isPadding ? 'Padding' : 'Current Transformation'}
+        </div>
+        <div className="grid grid-cols-8 gap-1">
+          {currentStep.rateByteKinds.map((kind, position) => (
+            <div
+              key={`rate-byte-${position}`}
+              className={`p-1 rounded text-center font-mono text-xs ${kind === 'message' ? 'bg-blue-100 dark:bg-blue-800' : kind === 'padding' ? 'bg-orange-100 dark:bg-orange-800' : 'bg-gray-100 dark:bg-gray-800 text-gray-400'}`}
+            >
+              {kind === 'message' && position < inputBytes.length ? (
+                <>
+                  <div className="text-base">{toPrintableChar(inputBytes[position])}</div>
+                  <div>{inputHex!.substring(2 * position, 2 * position + 2)}</div>
+                  <div className="text-gray-500">↓</div>
+                  <div>{position < outputBytes.length ? outputHex!.substring(2 * position, 2 * position + 2) : '??'}</div>
+                  <div className="text-base">{position < outputBytes.length ? toPrintableChar(outputBytes[position]) : ' '}</div>
+                </>
+              ) : kind === 'message' ? (
+                <div>msg</div>
+              ) : kind === 'padding' ? (
+                <div>{position === firstPadding ? (aeadVariant.byteOrder === 'little' ? '01' : '80') : '00'}</div>
+              ) : (
+                <div>—</div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3 text-[10px] text-gray-500 mt-1">
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-blue-300 mr-1"></span>{isEncryptMode ? 'plaintext → ciphertext' : 'ciphertext → plaintext'}</span>
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-orange-300 mr-1"></span>10* padding</span>
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-gray-300 mr-1"></span>not used yet</span>
+        </div>
+      </motion.div>
+    );
+  };
+
+  // Format a 5-bit column value as bits, x0 first
+  const formatColumn = (value: number) => {
+    return value.toString(2).padStart(5, '0');
+  };
+
+  // Show the S-box applied to one column, with a picker for all 64 columns
+  const renderSboxColumns = () => {
+    if (!currentStep?.sboxInput || !currentStep.sboxOutput) return null;
+    
+    const input = currentStep.sboxInput[selectedColumn];
+    const output = currentStep.sboxOutput[selectedColumn];
+    
+    return (
+      <div className="mt-2 space-y-2">
+        <div className="grid grid-cols-16 gap-0.5">
+          {Array.from({ length: 64 }, (_, idx) => 63 - idx).map(column => (
+            <button
+              key={`column-${column}`}
+              onClick={() => setSelectedColumn(column)}
+              title={`Column ${column}: 0x${currentStep.sboxInput![column].toString(16)} → 0x${currentStep.sboxOutput![column].toString(16)}`}
+              className={`text-[10px] font-mono rounded py-0.5 ${column === selectedColumn ? 'bg-purple-500 text-white' : 'bg-white/70 dark:bg-black/20 hover:bg-purple-200 dark:hover:bg-purple-800'}`}
+            >
+              {currentStep.sboxOutput![column].toString(16).padStart(2, '0')}
+            </button>
+          ))}
+        </div>
+        <motion.div 
+          className="flex items-center justify-center gap-3 font-mono text-xs"
+          key={`sbox-${currentStepIndex}-${selectedColumn}`}
+          initial={{ opacity: 0, y: 5 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="bg-white/70 dark:bg-black/20 p-2 rounded">
+            <div className="text-gray-500 mb-1">Column {selectedColumn} in</div>
+            {formatColumn(input).split('').map((bit, word) => (
+              <div key={`in-${word}`}>x{word}: {bit}</div>
+            ))}
+            <div className="mt-1">0x{input.toString(16).padStart(2, '0')}</div>
+          </div>
+          <div className="text-center">
+            <div className="text-gray-500">S-box</div>
+            <div className="text-lg">→</div>
+          </div>
+          <div className="bg-white/70 dark:bg-black/20 p-2 rounded">
+            <div className="text-gray-500 mb-1">Column {selectedColumn} out</div>
+            {formatColumn(output).split('').map((bit, word) => (
+              <div key={`out-${word}`}>x{word}: {bit}</div>
+            ))}
+            <div className="mt-1">0x{output.toString(16).padStart(2, '0')}</div>
+          </div>
+        </motion.div>
+      </div>
+    );
+  };
+
+  // Key input with the hex/text toggle, used by the AEAD and MAC panels
+  const renderKeyInput = (id: string, label: string) => {
+    return (
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <label htmlFor={id} className="block text-sm font-medium">
+            {label} ({keyLength * 8}-bit)
+          </label>
+          <div className="flex text-xs rounded-md overflow-hidden border border-gray-300 dark:border-gray-700">
+            {(['hex', 'text'] as const).map(format => (
+              <button
+                key={format}
+                className={`px-2 py-0.5 ${keyFormat === format ? 'bg-blue-500 text-white' : ''}`}
+                onClick={() => setKeyFormat(format)}
               >
-                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <line x1="5" y1="12" x2="19" y2="12"></line>
-                  <polyline points="12 5 19 12 12 19"></polyline>
-                </svg>
-              </motion.div>
-              <div className="bg-purple-100 dark:bg-purple-800 p-2 rounded text-center">
-                <div className="text-xs text-gray-500 mb-1">Ciphertext</div>
-                <div className="font-mono">
-                  <span className="text-xl">{currentStep.ciphertextChar}</span>
-                  <div className="text-xs mt-1">Hex: {currentStep.ciphertextHex}</div>
-                </div>
+                {format === 'text' ? 'Text' : 'Hex'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <input
+          id={id}
+          type="text"
+          className={`w-full p-2 border rounded-md bg-white/5 ${keyError ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'} ${keyFormat === 'hex' ? 'font-mono' : ''}`}
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+        />
+        {keyError && (
+          <p className="text-xs text-red-500 mt-1">{keyError}</p>
+        )}
+        {keyFormat === 'text' && (
+          <div className="mt-2 p-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-xs space-y-1">
+            <div className="flex items-center gap-2">
+              <span>Text {isAeadMode ? 'key and nonce are' : 'key is'}</span>
+              <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-700">
+                {(['pad', 'hash'] as const).map(derivation => (
+                  <button
+                    key={derivation}
+                    className={`px-2 py-0.5 ${textDerivation === derivation ? 'bg-blue-500 text-white' : ''}`}
+                    onClick={() => setTextDerivation(derivation)}
+                  >
+                    {derivation === 'pad' ? 'zero-padded' : 'hashed'}
+                  </button>
+                ))}
               </div>
             </div>
-          </motion.div>
-        );
-      }
-    } else {
-      // For decryption: show ciphertext → plaintext
-      if (currentStep.plaintextChar && currentStep.ciphertextChar && 
-          currentStep.step.includes("Processing ciphertext") && 
-          currentStep.roundNumber === index) {
-        return (
-          <motion.div 
-            className="flex flex-col items-center justify-center bg-green-50 dark:bg-green-900/20 p-2 rounded"
-            key={`transform-${index}`}
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            transition={{ duration: 0.5 }}
-          >
-            <div className="text-sm font-semibold mb-1">Current Transformation</div>
-            <div className="flex items-center gap-3">
-              <div className="bg-purple-100 dark:bg-purple-800 p-2 rounded text-center">
-                <div className="text-xs text-gray-500 mb-1">Ciphertext</div>
-                <div className="font-mono">
-                  <span className="text-xl">{currentStep.ciphertextChar}</span>
-                  <div className="text-xs mt-1">Hex: {currentStep.ciphertextHex}</div>
+            <div>
+              {textDerivation === 'pad'
+                ? `Warning: the UTF-8 bytes are zero-padded or cut to exactly ${keyLength} bytes, so characters past byte ${keyLength} are ignored.`
+                : `Warning: the first ${keyLength} bytes of the Ascon-Hash256 digest are used. Hashing does not make a guessable password any stronger.`}
+              {' '}Use hex to match published test vectors.
+            </div>
+            <div className="font-mono break-all">Loaded as {bytesToHex(getKeyBytes(key, keyLength))}</div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render the avalanche comparison: Hamming distance over the whole timeline and the
+  // XOR difference of the two states at the current step
+  const renderAvalanche = () => {
+    if (!isComparing || !currentStep) return null;
+    if (flipError || !distances) {
+      return (
+        <div className="p-3 rounded-md bg-orange-50 dark:bg-orange-900/20 text-sm">
+          {flipError || (mode === 'tamper' ? 'Computing the original decryption…' : 'Computing the flipped-bit trace…')}
+        </div>
+      );
+    }
+
+    const width = 600;
+    const height = 120;
+    const lastStep = Math.max(distances.length - 1, 1);
+    const toX = (step: number) => (step / lastStep) * width;
+    const toY = (distance: number) => height - (distance / 320) * height;
+    const currentDistance = distances[currentStepIndex] ?? 0;
+    const firstDivergence = distances.findIndex(distance => distance > 0);
+
+    // Jump to the step under the pointer
+    const handlePlotClick = (e: React.MouseEvent<SVGSVGElement>) => {
+      const bounds = e.currentTarget.getBoundingClientRect();
+      const step = Math.round(((e.clientX - bounds.left) / bounds.width) * lastStep);
+      setCurrentStepIndex(Math.min(Math.max(step, 0), stepCount - 1));
+    };
+
+    return (
+      <div className="p-3 rounded-md bg-orange-50 dark:bg-orange-900/20 space-y-3">
+        <div className="flex justify-between text-sm">
+          <h3 className="font-medium">
+            {mode === 'tamper'
+              ? 'Tampered vs. original decryption'
+              : `Avalanche: bit ${flipBitIndex} of the ${AVALANCHE_TARGET_LABELS[flipTarget].toLowerCase()} flipped`}
+          </h3>
+          <span className="font-mono">
+            {currentDistance} / 320 bits differ ({Math.round((currentDistance / 320) * 100)}%)
+          </span>
+        </div>
+
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-28 bg-white/70 dark:bg-black/20 rounded cursor-pointer"
+          preserveAspectRatio="none"
+          onClick={handlePlotClick}
+        >
+          <line x1={0} x2={width} y1={toY(160)} y2={toY(160)} stroke="currentColor" strokeOpacity={0.3} strokeDasharray="4 4" />
+          <polyline
+            fill="none"
+            stroke="#f97316"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            points={avalanchePlot.map(([step, distance]) => `${toX(step)},${toY(distance)}`).join(' ')}
+          />
+          {firstDivergence >= 0 && (
+            <line x1={toX(firstDivergence)} x2={toX(firstDivergence)} y1={0} y2={height} stroke="#ef4444" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+          )}
+          <line x1={toX(currentStepIndex)} x2={toX(currentStepIndex)} y1={0} y2={height} stroke="#3b82f6" vectorEffect="non-scaling-stroke" />
+        </svg>
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Step 1</span>
+          <span>Dashed line: 160 bits, what two unrelated states differ in on average</span>
+          <span>Step {distances.length}</span>
+        </div>
+        <div className="flex justify-between items-center text-xs">
+          <span className="text-gray-600 dark:text-gray-400">
+            {firstDivergence < 0
+              ? 'The two runs never diverge: every state is identical.'
+              : `The states first differ at step ${firstDivergence + 1} (red dashed line).`}
+          </span>
+          {firstDivergence >= 0 && (
+            <button
+              className="text-blue-500 hover:underline"
+              onClick={() => setCurrentStepIndex(firstDivergence)}
+            >
+              Jump to first divergence
+            </button>
+          )}
+        </div>
+
+        {comparisonStep && (
+          <div className="space-y-2">
+            {stateDifference(currentStep.state, comparisonStep.state).map((difference, index) => (
+              <div key={index} className="text-xs">
+                <div className="flex justify-between font-mono">
+                  <span>x{index}: {formatStateWord(currentStep.state[index])} vs {formatStateWord(comparisonStep.state[index])}</span>
+                  <span>{hammingWeight(difference)} bits</span>
                 </div>
+                {renderDifferenceBits(difference)}
               </div>
-              <motion.div 
-                animate={{ x: [0, 10, 0] }}
-                transition={{ repeat: Infinity, duration: 1.5, repeatType: "reverse" }}
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <line x1="5" y1="12" x2="19" y2="12"></line>
-                  <polyline points="12 5 19 12 12 19"></polyline>
-                </svg>
-              </motion.div>
-              <div className="bg-blue-100 dark:bg-blue-800 p-2 rounded text-center">
-                <div className="text-xs text-gray-500 mb-1">Plaintext</div>
-                <div className="font-mono">
-                  <span className="text-xl">{currentStep.plaintextChar}</span>
-                  <div className="text-xs mt-1">Hex: {currentStep.plaintextHex}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render a 64-bit XOR difference, one cell per bit with differing bits highlighted
+  const renderDifferenceBits = (difference: bigint) => {
+    return (
+      <div className="grid gap-px mt-1" style={{ gridTemplateColumns: 'repeat(64, minmax(0, 1fr))' }}>
+        {Array.from({ length: 64 }, (_, i) => (
+          <div
+            key={i}
+            className={`h-2 ${(difference >> BigInt(63 - i)) & 1n ? 'bg-orange-500' : 'bg-gray-200 dark:bg-gray-700'}`}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  // Render a row of bytes as hex, dimming the bytes after `highlightedBytes`
+  const renderByteRow = (label: string, bytes: Uint8Array, highlightedBytes: number, className: string) => {
+    return (
+      <div className="flex gap-2 items-start">
+        <span className="w-16 shrink-0 text-xs font-medium pt-0.5">{label}</span>
+        <div className="flex flex-wrap gap-0.5 font-mono text-[11px]">
+          {Array.from(bytes, (byte, i) => (
+            <span key={i} className={`px-0.5 rounded ${i < highlightedBytes ? className : 'opacity-40'}`}>
+              {byte.toString(16).padStart(2, '0')}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Render the nonce-reuse walkthrough: both ciphertexts, their XOR next to the XOR of the
+  // plaintexts, and recovering the second message from a guessed piece of the first
+  const renderNonceReuse = () => {
+    if (mode !== 'nonceReuse' || !finalStep?.ciphertext || comparisonFinalStep?.ciphertext === undefined) return null;
+
+    // Take the messages from the traces, so they always match the ciphertexts shown
+    const plaintext1 = textToBytes(finalStep.plaintext || '');
+    const plaintext2 = textToBytes(comparisonFinalStep.plaintext || '');
+    const ciphertext1 = hexToBytes(finalStep.ciphertext).subarray(0, plaintext1.length);
+    const ciphertext2 = hexToBytes(comparisonFinalStep.ciphertext).subarray(0, plaintext2.length);
+    const analysis = analyzeNonceReuse(plaintext1, ciphertext1, plaintext2, ciphertext2, aeadVariant.rateBytes);
+    const sharedSteps = distances ? distances.findIndex(distance => distance > 0) : -1;
+    const cribBytes = textToBytes(crib);
+    const placements = dragCrib(analysis, cribBytes);
+    const formatText = (bytes: Uint8Array) => Array.from(bytes, toPrintableChar).join('');
+
+    return (
+      <motion.div
+        className="border rounded-md p-4 bg-white/5 border-red-300 dark:border-red-800 space-y-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h2 className="text-xl font-bold">What Reusing the Nonce Gives Away</h2>
+
+        <div className="space-y-1 text-sm">
+          <h3 className="font-medium">1. Same key and nonce, same keystream</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {sharedSteps < 0
+              ? 'The two encryptions go through exactly the same states: the messages are identical, and so are the ciphertexts.'
+              : `The two encryptions go through identical states for the first ${sharedSteps} steps (initialization and associated data), so they XOR the same rate bytes onto their first blocks.`}
+          </p>
+        </div>
+
+        <div className="space-y-2 text-sm">
+          <h3 className="font-medium">2. C1 ⊕ C2 = P1 ⊕ P2</h3>
+          {renderByteRow('C1', ciphertext1, analysis.leakedBytes, 'bg-purple-100 dark:bg-purple-900/30')}
+          {renderByteRow('C2', ciphertext2, analysis.leakedBytes, 'bg-purple-100 dark:bg-purple-900/30')}
+          {renderByteRow('C1 ⊕ C2', analysis.ciphertextXor, analysis.leakedBytes, 'bg-red-100 dark:bg-red-900/30')}
+          {renderByteRow('P1 ⊕ P2', analysis.plaintextXor, analysis.leakedBytes, 'bg-red-100 dark:bg-red-900/30')}
+          <p className="text-gray-600 dark:text-gray-400">
+            The keystream cancels out, so the first {analysis.leakedBytes} bytes of C1 ⊕ C2 equal P1 ⊕ P2 without knowing
+            the key. Ascon feeds every ciphertext block back into the state, so the keystreams split after the first
+            {' '}{aeadVariant.rateBytes}-byte block in which the messages differ: the dimmed bytes leak nothing. A stream
+            cipher like AES-CTR would leak the XOR of the whole messages, but even here, equal prefixes and the first
+            differing block are exposed.
+          </p>
+        </div>
+
+        <div className="space-y-2 text-sm">
+          <h3 className="font-medium">3. Recover P2 with a crib</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Guess a word that might appear in P1. Wherever it really is, (C1 ⊕ C2) ⊕ crib gives the matching piece of P2;
+            offsets that yield readable text are the likely ones.
+          </p>
+          <input
+            type="text"
+            aria-label="Crib"
+            className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 font-mono"
+            value={crib}
+            onChange={(e) => setCrib(e.target.value)}
+            placeholder="A guessed piece of P1, e.g. Attack"
+          />
+          {cribBytes.length > 0 && (placements.length === 0 ? (
+            <p className="text-xs text-gray-500">The crib is longer than the {analysis.leakedBytes} leaked bytes.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-1 font-mono text-xs">
+              {placements.map(placement => (
+                <div
+                  key={placement.offset}
+                  className={`p-1 rounded ${placement.printable ? 'bg-green-100 dark:bg-green-900/30' : 'bg-gray-100 dark:bg-gray-800 opacity-60'}`}
+                >
+                  @{placement.offset}: {formatText(placement.recovered)}
                 </div>
-              </div>
+              ))}
+            </div>
+          ))}
+          <p className="text-gray-600 dark:text-gray-400">
+            Knowing all of P1 reveals{' '}
+            <span className="font-mono bg-green-100 dark:bg-green-900/30 px-1 rounded">
+              {formatText(applyCrib(analysis, plaintext1, 0))}
+            </span>
+            {' '}of P2.
+          </p>
+        </div>
+      </motion.div>
+    );
+  };
+
+  // Render the bytes of a tampered field as buttons, marking edited bytes and the tag
+  const renderTamperBytes = (field: TamperField, label: string, original: Uint8Array, tampered: Uint8Array, tagStart: number) => {
+    return (
+      <div className="space-y-1">
+        <span className="text-xs font-medium">{label}</span>
+        {tampered.length === 0 ? (
+          <p className="text-xs text-gray-500">Empty</p>
+        ) : (
+          <div className="flex flex-wrap gap-0.5 font-mono text-[11px]">
+            {Array.from(tampered, (byte, i) => {
+              const isSelected = selectedTamperByte?.field === field && selectedTamperByte.index === i;
+              const isEdited = byte !== original[i];
+              return (
+                <button
+                  key={i}
+                  className={`px-0.5 rounded ${isEdited ? 'bg-red-200 dark:bg-red-900/50' : i >= tagStart ? 'bg-purple-100 dark:bg-purple-900/30' : 'bg-white/70 dark:bg-black/20'} ${isSelected ? 'ring-2 ring-orange-500' : ''}`}
+                  title={`Byte ${i}${i >= tagStart ? ` (tag byte ${i - tagStart})` : ''}${isEdited ? `, was ${original[i].toString(16).padStart(2, '0')}` : ''}`}
+                  onClick={() => setSelectedTamperByte({ field, index: i })}
+                >
+                  {byte.toString(16).padStart(2, '0')}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render the tamper lab: the ciphertext, tag and associated data byte by byte, an editor for
+  // the selected byte, and how the edits reach the tag check
+  const renderTamperEditor = () => {
+    if (!isValidHex(input) || hexToBytes(input).length < aeadVariant.tagBytes) {
+      return (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm">
+          Encrypt a message and choose &quot;Tamper with it&quot;, or paste a ciphertext of at least {aeadVariant.tagBytes} bytes
+          (the tag included) as hex.
+        </div>
+      );
+    }
+
+    const originalCiphertext = hexToBytes(input);
+    const ciphertextBytes = hexToBytes(tamperedCiphertext);
+    const tamperedAssociatedDataBytes = hexToBytes(tamperedAssociatedData);
+    const tagStart = originalCiphertext.length - aeadVariant.tagBytes;
+    const countEdits = (original: Uint8Array, tampered: Uint8Array) => tampered.filter((byte, i) => byte !== original[i]).length;
+    const ciphertextEdits = countEdits(originalCiphertext.subarray(0, tagStart), ciphertextBytes.subarray(0, tagStart));
+    const tagEdits = countEdits(originalCiphertext.subarray(tagStart), ciphertextBytes.subarray(tagStart));
+    const associatedDataEdits = countEdits(associatedDataBytes, tamperedAssociatedDataBytes);
+
+    const selectedBytes = selectedTamperByte?.field === 'ciphertext' ? ciphertextBytes : tamperedAssociatedDataBytes;
+    const selectedOriginal = selectedTamperByte?.field === 'ciphertext' ? originalCiphertext : associatedDataBytes;
+    const selectedValue = selectedTamperByte ? selectedBytes[selectedTamperByte.index] : undefined;
+
+    // Tag check of the tampered decryption next to the tag the original decryption computes
+    const verification = finalStep?.verification;
+    const originalTag = comparisonFinalStep?.verification?.computedTag;
+    const tagDifference = verification?.computedTag
+      ? hammingWeight(BigInt(`0x${verification.receivedTag}`) ^ BigInt(`0x${verification.computedTag}`))
+      : 0;
+    const firstDivergence = distances ? distances.findIndex(distance => distance > 0) : -1;
+    const finalDistance = distances && distances.length > 0 ? distances[distances.length - 1] : 0;
+
+    return (
+      <div className="space-y-3 p-3 rounded-md bg-red-50 dark:bg-red-900/20">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-medium">Tamper with the message</h3>
+          <button className="text-xs text-blue-500 hover:underline" onClick={handleResetTampering}>
+            Reset edits
+          </button>
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Click a byte to edit it. Purple bytes are the tag, red ones differ from the original. The original and the
+          tampered message are decrypted side by side.
+        </p>
+
+        {renderTamperBytes('ciphertext', 'Ciphertext and tag', originalCiphertext, ciphertextBytes, tagStart)}
+        {renderTamperBytes('associatedData', 'Associated data', associatedDataBytes, tamperedAssociatedDataBytes, tamperedAssociatedDataBytes.length)}
+
+        {selectedTamperByte && selectedValue !== undefined && (
+          <div className="space-y-2 p-2 rounded bg-white/70 dark:bg-black/20">
+            <div className="flex justify-between items-center text-xs">
+              <span>
+                {selectedTamperByte.field === 'ciphertext'
+                  ? selectedTamperByte.index >= tagStart ? `Tag byte ${selectedTamperByte.index - tagStart}` : `Ciphertext byte ${selectedTamperByte.index}`
+                  : `Associated data byte ${selectedTamperByte.index}`}
+                {' '}(originally {selectedOriginal[selectedTamperByte.index].toString(16).padStart(2, '0')})
+              </span>
+              <input
+                key={`${selectedTamperByte.field}-${selectedTamperByte.index}-${selectedValue}`}
+                type="text"
+                aria-label="Byte value in hex"
+                maxLength={2}
+                className="w-12 p-1 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 font-mono text-xs"
+                defaultValue={selectedValue.toString(16).padStart(2, '0')}
+                onChange={(e) => {
+                  if (/^[0-9a-fA-F]{2}$/.test(e.target.value)) {
+                    setTamperedByte(selectedTamperByte.field, selectedTamperByte.index, parseInt(e.target.value, 16));
+                  }
+                }}
+              />
+            </div>
+            <div className="grid grid-cols-8 gap-1">
+              {Array.from({ length: 8 }, (_, bit) => {
+                const mask = 0x80 >> bit;
+                return (
+                  <button
+                    key={bit}
+                    className={`py-1 rounded font-mono text-xs ${selectedValue & mask ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'} ${(selectedValue ^ selectedOriginal[selectedTamperByte.index]) & mask ? 'ring-2 ring-red-500' : ''}`}
+                    title={`Flip bit ${bit} (mask 0x${mask.toString(16).padStart(2, '0')})`}
+                    onClick={() => setTamperedByte(selectedTamperByte.field, selectedTamperByte.index, selectedValue ^ mask)}
+                  >
+                    {selectedValue & mask ? 1 : 0}
+                  </button>
+                );
+              })}
             </div>
-          </motion.div>
-        );
-      }
-    }
-    
-    return null;
+          </div>
+        )}
+
+        <div className="space-y-1 text-xs">
+          <h4 className="font-medium">Tag check</h4>
+          {verification ? (
+            <>
+              <div className="font-mono break-all"><span className="text-gray-500">Received tag: </span>{verification.receivedTag}</div>
+              <div className="font-mono break-all"><span className="text-gray-500">Recomputed tag: </span>{verification.computedTag}</div>
+              {originalTag && (
+                <div className="font-mono break-all"><span className="text-gray-500">Original recomputed tag: </span>{originalTag}</div>
+              )}
+              <p className={verification.valid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                {verification.valid
+                  ? 'The tags match, so the message is accepted.'
+                  : `The tags differ in ${tagDifference} of ${aeadVariant.tagBytes * 8} bits, so the message is rejected.`}
+              </p>
+              <p className="text-gray-600 dark:text-gray-400">
+                {ciphertextEdits + tagEdits + associatedDataEdits === 0
+                  ? 'Nothing has been edited yet, so both decryptions are identical.'
+                  : firstDivergence < 0
+                    ? 'Only the tag was edited. The states never diverge, so the recomputed tag equals the original one; it just no longer matches the tag that was received.'
+                    : `${ciphertextEdits + associatedDataEdits} edited byte${ciphertextEdits + associatedDataEdits === 1 ? '' : 's'} enter the state at step ${firstDivergence + 1}. Every permutation after that spreads the difference, until ${finalDistance} of 320 state bits differ at the end and the recomputed tag looks unrelated to the original.`}
+              </p>
+              {comparisonFinalStep?.verification?.valid === false && (
+                <p className="text-red-600 dark:text-red-400">
+                  The original does not verify either: check that the key, nonce and associated data match the encryption.
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500">Decrypting…</p>
+          )}
+        </div>
+      </div>
+    );
   };
 
   // Show progress of text transformation
   const renderTextProgress = () => {
     if (!currentStep) return null;
+    const processedBytes = currentStep.processedBytes ?? 0;
     
-    if (mode === 'encrypt') {
+    if (isEncryptMode) {
       // For encryption: show plaintext being converted to ciphertext
-      if (currentStep.plaintext && currentStep.ciphertext) {
+      if (processedBytes > 0 && result) {
         return (
           <div className="mt-4 space-y-2">
             <div className="flex justify-between">
@@ -295,18 +1429,65 @@ export default function AsconVisualizer() {
             </div>
             <div className="flex space-x-3">
               <div className="flex-1 p-2 bg-blue-50 dark:bg-blue-900/20 rounded font-mono text-sm break-all">
-                {currentStep.plaintext}
+                {runningText(inputBytes, processedBytes)}
               </div>
               <div className="flex-1 p-2 bg-purple-50 dark:bg-purple-900/20 rounded font-mono text-sm break-all">
-                {currentStep.ciphertext}
+                {runningHex(result, processedBytes)}
               </div>
             </div>
           </div>
         );
       }
+    } else if (mode === 'xof') {
+      // For XOF: show the absorbed message and each squeezed block as it is emitted
+      const outputBlocks = (currentStep.digest || '').match(/.{1,16}/g) || [];
+      return (
+        <div className="mt-4 space-y-2">
+          <h3 className="text-sm font-medium">Message absorbed</h3>
+          <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded font-mono text-sm break-all">
+            {runningText(inputBytes, processedBytes) || '—'}
+          </div>
+          <h3 className="text-sm font-medium">Output blocks ({outputBlocks.length} of {Math.ceil(outputLength / 8)})</h3>
+          <div className="flex flex-wrap gap-2">
+            {outputBlocks.map((block, idx) => (
+              <motion.div
+                key={`squeeze-${idx}`}
+                className={`p-2 rounded font-mono text-xs ${idx === outputBlocks.length - 1 && currentStep.step.includes("Squeezing") ? 'bg-purple-200 dark:bg-purple-800' : 'bg-purple-50 dark:bg-purple-900/20'}`}
+                initial={{ opacity: 0, scale: 0.8, y: -10 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                transition={{ duration: 0.4 }}
+              >
+                <div className="text-[10px] text-gray-500">Block {idx + 1}</div>
+                {block}
+              </motion.div>
+            ))}
+          </div>
+        </div>
+      );
+    } else if (mode === 'hash' || mode === 'mac') {
+      // For hashing and MACs: show the absorbed message and the output squeezed so far
+      return (
+        <div className="mt-4 space-y-2">
+          <div className="flex justify-between">
+            <h3 className="text-sm font-medium">Message absorbed</h3>
+            <h3 className="text-sm font-medium">
+              {mode === 'hash' ? 'Digest' : macVariant === 'Ascon-Mac' ? 'Tag' : 'PRF output'}
+            </h3>
+          </div>
+          <div className="flex space-x-3">
+            <div className="flex-1 p-2 bg-blue-50 dark:bg-blue-900/20 rounded font-mono text-sm break-all">
+              {runningText(inputBytes, processedBytes)}
+            </div>
+            <div className="flex-1 p-2 bg-purple-50 dark:bg-purple-900/20 rounded font-mono text-sm break-all">
+              {currentStep.digest || '—'}
+            </div>
+          </div>
+        </div>
+      );
     } else {
-      // For decryption: show ciphertext being converted to plaintext
-      if (currentStep.ciphertext && currentStep.plaintext) {
+      // For decryption: show ciphertext being converted to plaintext (the result is empty when
+      // the tag check failed, so a rejected message shows none)
+      if (processedBytes > 0 && result) {
         return (
           <div className="mt-4 space-y-2">
             <div className="flex justify-between">
@@ -315,10 +1496,10 @@ export default function AsconVisualizer() {
             </div>
             <div className="flex space-x-3">
               <div className="flex-1 p-2 bg-purple-50 dark:bg-purple-900/20 rounded font-mono text-sm break-all">
-                {currentStep.ciphertext}
+                {runningHex(mode === 'tamper' ? tamperedCiphertext : input, processedBytes)}
               </div>
               <div className="flex-1 p-2 bg-blue-50 dark:bg-blue-900/20 rounded font-mono text-sm break-all">
-                {currentStep.plaintext}
+                {runningText(resultBytes, processedBytes)}
               </div>
             </div>
           </div>
@@ -340,23 +1521,26 @@ export default function AsconVisualizer() {
         ASCON Encryption Visualizer
       </motion.h1>
       
+      <div className="text-center text-sm -mt-4">
+        <Link href="/permutation" className="text-blue-500 hover:underline">Open the permutation playground →</Link>
+        <span className="mx-2 text-gray-400">·</span>
+        <Link href="/sbox" className="text-blue-500 hover:underline">Analyze the S-box →</Link>
+        <span className="mx-2 text-gray-400">·</span>
+        <Link href="/cpa" className="text-blue-500 hover:underline">Attack the power consumption →</Link>
+      </div>
+      
       <div className="flex justify-center space-x-4 mb-2">
-        <motion.button
-          className={`px-4 py-2 rounded-md transition-colors ${mode === 'encrypt' ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={() => handleModeChange('encrypt')}
-        >
-          Encrypt
-        </motion.button>
-        <motion.button
-          className={`px-4 py-2 rounded-md transition-colors ${mode === 'decrypt' ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={() => handleModeChange('decrypt')}
-        >
-          Decrypt
-        </motion.button>
+        {(Object.keys(MODE_LABELS) as VisualizerMode[]).map(modeOption => (
+          <motion.button
+            key={modeOption}
+            className={`px-4 py-2 rounded-md transition-colors ${mode === modeOption ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => handleModeChange(modeOption)}
+          >
+            {MODE_LABELS[modeOption].button}
+          </motion.button>
+        ))}
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -367,19 +1551,236 @@ export default function AsconVisualizer() {
           transition={{ duration: 0.5 }}
         >
           <div>
-            <label htmlFor="input" className="block text-sm font-medium mb-1">
-              {mode === 'encrypt' ? 'Your Secret Message' : 'Ciphertext (in hex)'}
-            </label>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="input" className="block text-sm font-medium">
+                {MODE_LABELS[mode].input}
+              </label>
+              {mode === 'encrypt' && (
+                <div className="flex text-xs rounded-md overflow-hidden border border-gray-300 dark:border-gray-700">
+                  {(['text', 'hex'] as const).map(format => (
+                    <button
+                      key={format}
+                      className={`px-2 py-0.5 ${inputFormat === format ? 'bg-blue-500 text-white' : ''}`}
+                      onClick={() => setInputFormat(format)}
+                    >
+                      {format === 'text' ? 'Text' : 'Hex'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <textarea
               id="input"
-              className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 font-mono"
+              className={`w-full p-2 border rounded-md bg-white/5 ${ciphertextError || messageError ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'} font-mono`}
               rows={3}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder={mode === 'encrypt' ? "Type something to encrypt..." : "Paste hex ciphertext to decrypt..."}
+              onChange={(e) => handleInputChange(e.target.value)}
+              placeholder={isHexMessage ? 'e.g. 48656c6c6f' : MODE_LABELS[mode].placeholder}
             />
+            {ciphertextError && mode === 'decrypt' && (
+              <p className="text-xs text-red-500 mt-1">{ciphertextError}</p>
+            )}
+            {messageError && (
+              <p className="text-xs text-red-500 mt-1">{messageError}</p>
+            )}
+            {traceError && (
+              <p className="text-xs text-red-500 mt-1">Could not run {MODE_LABELS[mode].title.toLowerCase()}: {traceError}</p>
+            )}
           </div>
           
+          {mode === 'nonceReuse' && (
+            <div>
+              <label htmlFor="second-message" className="block text-sm font-medium mb-1">
+                Second Message (P2)
+              </label>
+              <textarea
+                id="second-message"
+                className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 font-mono"
+                rows={3}
+                value={secondMessage}
+                onChange={(e) => setSecondMessage(e.target.value)}
+                placeholder="Type a second message, encrypted under the same key and nonce..."
+              />
+              <p className="text-xs text-red-500 mt-1">
+                Both messages are encrypted with the same key and nonce. Never do this outside this demo.
+              </p>
+            </div>
+          )}
+          
+          {isAeadMode && (
+            <div className="space-y-2 p-3 rounded-md bg-gray-50 dark:bg-gray-800/50">
+              <label htmlFor="variant" className="block text-sm font-medium">
+                Ascon Variant
+              </label>
+              <select
+                id="variant"
+                className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700"
+                value={variant}
+                onChange={(e) => setVariant(e.target.value as AsconVariantName)}
+              >
+                {(Object.keys(ASCON_VARIANTS) as AsconVariantName[]).map(name => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">{aeadVariant.description}</p>
+              <div className="grid grid-cols-4 gap-1 text-center text-xs">
+                <div className="bg-white/70 dark:bg-black/20 rounded p-1">
+                  <div className="text-gray-500">Key</div>
+                  <div className="font-mono">{aeadVariant.keyBytes * 8} bits</div>
+                </div>
+                <div className="bg-white/70 dark:bg-black/20 rounded p-1">
+                  <div className="text-gray-500">Rate</div>
+                  <div className="font-mono">{aeadVariant.rateBytes * 8} bits</div>
+                </div>
+                <div className="bg-white/70 dark:bg-black/20 rounded p-1">
+                  <div className="text-gray-500">Rounds a</div>
+                  <div className="font-mono">{aeadVariant.roundsA}</div>
+                </div>
+                <div className="bg-white/70 dark:bg-black/20 rounded p-1">
+                  <div className="text-gray-500">Rounds b</div>
+                  <div className="font-mono">{aeadVariant.roundsB}</div>
+                </div>
+              </div>
+            </div>
+          )}
+          
+          {mode === 'encrypt' && (
+            <div className="space-y-2 p-3 rounded-md bg-orange-50 dark:bg-orange-900/20">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={compareEnabled}
+                  onChange={(e) => setCompareEnabled(e.target.checked)}
+                />
+                Avalanche: compare with one flipped bit
+              </label>
+              {compareEnabled && (
+                <>
+                  <div className="flex gap-2">
+                    <select
+                      aria-label="Input to flip a bit in"
+                      className="flex-1 p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 text-sm"
+                      value={flipTarget}
+                      onChange={(e) => {
+                        setFlipTarget(e.target.value as AvalancheTarget);
+                        setFlipBitIndex(0);
+                      }}
+                    >
+                      {(Object.keys(AVALANCHE_TARGET_LABELS) as AvalancheTarget[]).map(target => (
+                        <option key={target} value={target}>
+                          {AVALANCHE_TARGET_LABELS[target]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      aria-label="Bit to flip"
+                      min={0}
+                      max={Math.max(flipTargetBits - 1, 0)}
+                      className="w-24 p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 font-mono text-sm"
+                      value={flipBitIndex}
+                      onChange={(e) => setFlipBitIndex(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                    />
+                  </div>
+                  <p className={`text-xs ${flipError ? 'text-red-500' : 'text-gray-500'}`}>
+                    {flipError || `Flips byte ${flipBitIndex >> 3}, mask 0x${(0x80 >> (flipBitIndex & 7)).toString(16).padStart(2, '0')}, and traces the encryption again.`}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+          
+          {mode === 'tamper' && renderTamperEditor()}
+          
+          {mode === 'mac' && (
+            <div className="space-y-3 p-3 rounded-md bg-gray-50 dark:bg-gray-800/50">
+              <div className="flex text-xs rounded-md overflow-hidden border border-gray-300 dark:border-gray-700 w-fit">
+                {(['Ascon-Mac', 'Ascon-Prf', 'Ascon-PrfShort'] as const).map(variant => (
+                  <button
+                    key={variant}
+                    className={`px-2 py-1 ${macVariant === variant ? 'bg-blue-500 text-white' : ''}`}
+                    onClick={() => {
+                      setMacVariant(variant);
+                      if (variant !== 'Ascon-Prf') setMacOutputLength(Math.min(macOutputLength, MAC_TAG_BYTES));
+                    }}
+                  >
+                    {variant}
+                  </button>
+                ))}
+              </div>
+              {renderKeyInput('mac-key', 'Secret Key')}
+              <div>
+                <label htmlFor="mac-output-length" className="block text-sm font-medium mb-1">
+                  {macVariant === 'Ascon-Mac' ? 'Tag Length (bytes)' : 'Output Length (bytes)'}
+                </label>
+                <input
+                  id="mac-output-length"
+                  type="number"
+                  min="1"
+                  max={maxMacOutputBytes(macVariant)}
+                  className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700"
+                  value={macOutputLength}
+                  onChange={(e) => setMacOutputLength(Math.min(maxMacOutputBytes(macVariant), Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                />
+                {macVariant === 'Ascon-PrfShort' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    PrfShort handles messages of at most {PRF_SHORT_MAX_BYTES} bytes in a single permutation call.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+          
+          {mode === 'xof' && (
+            <div className="space-y-3 p-3 rounded-md bg-gray-50 dark:bg-gray-800/50">
+              <div className="flex text-xs rounded-md overflow-hidden border border-gray-300 dark:border-gray-700 w-fit">
+                {(['xof', 'cxof'] as const).map(variant => (
+                  <button
+                    key={variant}
+                    className={`px-2 py-1 ${xofVariant === variant ? 'bg-blue-500 text-white' : ''}`}
+                    onClick={() => setXofVariant(variant)}
+                  >
+                    {variant === 'xof' ? 'Ascon-XOF128' : 'Ascon-CXOF128'}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label htmlFor="output-length" className="block text-sm font-medium mb-1">
+                  Output Length (bytes)
+                </label>
+                <input
+                  id="output-length"
+                  type="number"
+                  min="1"
+                  max={MAX_OUTPUT_BYTES}
+                  className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700"
+                  value={outputLength}
+                  onChange={(e) => setOutputLength(Math.min(MAX_OUTPUT_BYTES, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                />
+              </div>
+              {xofVariant === 'cxof' && (
+                <div>
+                  <label htmlFor="customization" className="block text-sm font-medium mb-1">
+                    Customization String
+                  </label>
+                  <input
+                    id="customization"
+                    type="text"
+                    className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700"
+                    value={customization}
+                    onChange={(e) => setCustomization(e.target.value)}
+                    placeholder="e.g. key derivation v1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Up to {CXOF_MAX_CUSTOMIZATION_BYTES} bytes. Different strings give independent outputs for the same message.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          
           {result && (
             <motion.div
               className="p-3 rounded-md bg-green-50 dark:bg-green-900/20"
@@ -389,21 +1790,59 @@ export default function AsconVisualizer() {
             >
               <div className="flex justify-between items-center mb-2">
                 <h3 className="text-sm font-bold">
-                  {mode === 'encrypt' ? 'Generated Ciphertext (hex)' : 'Decrypted Message'}
+                  {MODE_LABELS[mode].result}
                 </h3>
-                <button 
-                  className="text-xs text-blue-500 hover:underline"
-                  onClick={handleUseResult}
-                >
-                  {mode === 'encrypt' ? 'Use for decryption' : 'Use for encryption'}
-                </button>
+                {(mode === 'encrypt' || mode === 'decrypt') && (
+                  <div className="flex gap-3">
+                    {mode === 'encrypt' && (
+                      <button
+                        className="text-xs text-blue-500 hover:underline"
+                        onClick={handleTamperWithResult}
+                      >
+                        Tamper with it
+                      </button>
+                    )}
+                    <button 
+                      className="text-xs text-blue-500 hover:underline"
+                      onClick={handleUseResult}
+                    >
+                      {mode === 'encrypt' ? 'Use for decryption' : 'Use for encryption'}
+                    </button>
+                  </div>
+                )}
               </div>
               <div className="font-mono text-sm break-all bg-white/50 dark:bg-black/20 p-2 rounded">
-                {result}
+                {truncateForDisplay(result)}
+              </div>
+            </motion.div>
+          )}
+          
+          {isRejected && tagVerification && (
+            <motion.div
+              className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-800"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              transition={{ duration: 0.5 }}
+            >
+              <h3 className="text-sm font-bold text-red-700 dark:text-red-400 mb-2">
+                Authentication Failed - Message Rejected
+              </h3>
+              <p className="text-xs mb-2">
+                The ciphertext, tag, associated data, key or nonce does not match what was encrypted. No plaintext is released.
+              </p>
+              <div className="space-y-1 font-mono text-xs break-all">
+                <div><span className="text-gray-500">Received tag: </span>{tagVerification.receivedTag}</div>
+                <div><span className="text-gray-500">Computed tag: </span>{tagVerification.computedTag}</div>
               </div>
             </motion.div>
           )}
           
+          {isAeadMode && keyedInputError && !showAdvanced && (
+            <p className="text-xs text-red-500">
+              {keyedInputError}. Fix it under the advanced options.
+            </p>
+          )}
+          
           <div className="flex justify-end">
             <button 
               onClick={() => setShowAdvanced(!showAdvanced)}
@@ -414,37 +1853,83 @@ export default function AsconVisualizer() {
           </div>
           
           <AnimatePresence>
-            {showAdvanced && (
+            {showAdvanced && isAeadMode && (
               <motion.div 
                 initial={{ height: 0, opacity: 0 }}
                 animate={{ height: "auto", opacity: 1 }}
                 exit={{ height: 0, opacity: 0 }}
                 className="space-y-4 overflow-hidden"
               >
+                {renderKeyInput('key', 'Encryption Key')}
+                
                 <div>
-                  <label htmlFor="key" className="block text-sm font-medium mb-1">
-                    Encryption Key
-                  </label>
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor="nonce" className="block text-sm font-medium">
+                      Nonce (One-time Number)
+                    </label>
+                    {keyFormat === 'hex' && (
+                      <button
+                        className="text-xs text-blue-500 hover:underline"
+                        onClick={handleRandomNonce}
+                      >
+                        Random nonce
+                      </button>
+                    )}
+                  </div>
                   <input
-                    id="key"
+                    id="nonce"
                     type="text"
-                    className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700"
-                    value={key}
-                    onChange={(e) => setKey(e.target.value)}
+                    className={`w-full p-2 border rounded-md bg-white/5 ${nonceError ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'} ${keyFormat === 'hex' ? 'font-mono' : ''}`}
+                    value={nonce}
+                    onChange={(e) => setNonce(e.target.value)}
                   />
+                  {nonceError ? (
+                    <p className="text-xs text-red-500 mt-1">{nonceError}</p>
+                  ) : keyFormat === 'text' && (
+                    <p className="text-xs text-gray-500 mt-1 font-mono break-all">
+                      Loaded as {bytesToHex(getKeyBytes(nonce, NONCE_BYTES))}
+                    </p>
+                  )}
+                  {mode === 'encrypt' && nonce === DEFAULT_NONCE && (
+                    <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                      This is the fixed demo nonce. A nonce must never encrypt two different messages under the same key;
+                      the Nonce Reuse mode shows what leaks when it does.
+                    </p>
+                  )}
                 </div>
                 
                 <div>
-                  <label htmlFor="nonce" className="block text-sm font-medium mb-1">
-                    Nonce (One-time Number)
-                  </label>
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor="associated-data" className="block text-sm font-medium">
+                      Associated Data (optional)
+                    </label>
+                    <div className="flex text-xs rounded-md overflow-hidden border border-gray-300 dark:border-gray-700">
+                      {(['text', 'hex'] as const).map(format => (
+                        <button
+                          key={format}
+                          className={`px-2 py-0.5 ${associatedDataFormat === format ? 'bg-blue-500 text-white' : ''}`}
+                          onClick={() => setAssociatedDataFormat(format)}
+                        >
+                          {format === 'text' ? 'Text' : 'Hex'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <input
-                    id="nonce"
+                    id="associated-data"
                     type="text"
-                    className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700"
-                    value={nonce}
-                    onChange={(e) => setNonce(e.target.value)}
+                    className={`w-full p-2 border rounded-md bg-white/5 ${associatedDataError ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'} ${associatedDataFormat === 'hex' ? 'font-mono' : ''}`}
+                    value={associatedData}
+                    onChange={(e) => setAssociatedData(e.target.value)}
+                    placeholder={associatedDataFormat === 'hex' ? 'e.g. 0a0b0c' : 'e.g. a message header'}
                   />
+                  {associatedDataError ? (
+                    <p className="text-xs text-red-500 mt-1">{associatedDataError}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Authenticated but not encrypted. Decrypting with different associated data makes the tag invalid.
+                    </p>
+                  )}
                 </div>
               </motion.div>
             )}
@@ -473,7 +1958,7 @@ export default function AsconVisualizer() {
           <div className="flex space-x-3 justify-center pt-4">
             <motion.button
               onClick={handleStepBackward}
-              disabled={currentStepIndex === 0 || steps.length === 0}
+              disabled={currentStepIndex === 0 || stepCount === 0}
               className="px-4 py-2 bg-gray-200 dark:bg-gray-700 rounded-md disabled:opacity-50 flex items-center gap-1"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -486,7 +1971,7 @@ export default function AsconVisualizer() {
             </motion.button>
             <motion.button
               onClick={handlePlayPause}
-              disabled={input === ''}
+              disabled={input === '' || !!parameterError}
               className="px-5 py-2 bg-blue-500 text-white rounded-md disabled:opacity-50 flex items-center gap-1"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -510,7 +1995,7 @@ export default function AsconVisualizer() {
             </motion.button>
             <motion.button
               onClick={handleReset}
-              disabled={steps.length === 0}
+              disabled={stepCount === 0}
               className="px-4 py-2 bg-gray-200 dark:bg-gray-700 rounded-md disabled:opacity-50 flex items-center gap-1"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -525,7 +2010,7 @@ export default function AsconVisualizer() {
             </motion.button>
             <motion.button
               onClick={handleStepForward}
-              disabled={currentStepIndex === steps.length - 1 || steps.length === 0}
+              disabled={currentStepIndex === stepCount - 1 || stepCount === 0}
               className="px-4 py-2 bg-gray-200 dark:bg-gray-700 rounded-md disabled:opacity-50 flex items-center gap-1"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -537,6 +2022,48 @@ export default function AsconVisualizer() {
               </svg>
             </motion.button>
           </div>
+          
+          {/* Save the trace in the player, or load one saved earlier */}
+          <div className="space-y-2 pt-4 border-t border-gray-300 dark:border-gray-700">
+            <h3 className="text-sm font-medium">Trace File</h3>
+            <div className="flex flex-wrap gap-2">
+              {(['json', 'csv'] as TraceFileFormat[]).map(format => (
+                <button
+                  key={format}
+                  className="px-3 py-1 text-xs rounded-md bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                  disabled={stepCount === 0 || stepCount > TRACE_EXPORT_MAX_STEPS}
+                  onClick={() => handleExportTrace(format)}
+                >
+                  Export {format.toUpperCase()}
+                </button>
+              ))}
+              <button
+                className="px-3 py-1 text-xs rounded-md bg-gray-200 dark:bg-gray-700"
+                onClick={() => traceFileInputRef.current?.click()}
+              >
+                Import…
+              </button>
+              <input
+                ref={traceFileInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportTrace(file);
+                  e.target.value = ''; // Lets the same file be imported again
+                }}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              A trace file holds the algorithm, its parameters and inputs, and every state as hex.
+              JSON keeps all step details; CSV keeps one row per step with its name, round and state.
+              {stepCount > TRACE_EXPORT_MAX_STEPS && ` Traces of more than ${TRACE_EXPORT_MAX_STEPS} steps are too long to export.`}
+            </p>
+            {traceFileError && (
+              <p className="text-xs text-red-500">{traceFileError}</p>
+            )}
+          </div>
         </motion.div>
         
         <motion.div 
@@ -546,271 +2073,423 @@ export default function AsconVisualizer() {
           transition={{ duration: 0.5 }}
         >
           <h2 className="text-xl font-bold mb-4">
-            {mode === 'encrypt' ? 'Encryption Visualization' : 'Decryption Visualization'}
+            {MODE_LABELS[mode].title} Visualization
           </h2>
           
-          {steps.length > 0 && currentStep ? (
+          {/* A trace loaded from a file, which editing an input replaces with a computed one */}
+          {importedFile && (
+            <div className="mb-4 p-3 rounded-md bg-purple-50 dark:bg-purple-900/20 text-sm flex justify-between items-center gap-3">
+              <span>
+                Showing the trace imported from <span className="font-mono">{importedFile.name}</span>, as recorded.
+                Editing any input computes a new trace.
+              </span>
+              <button
+                className="text-xs text-blue-500 hover:underline whitespace-nowrap"
+                onClick={() => setImportedFile(null)}
+              >
+                Back to live trace
+              </button>
+            </div>
+          )}
+          
+          {/* Progress of a trace still being computed in the background */}
+          {traceProgress !== null && (
+            <div className="mb-4 text-sm">
+              <div className="flex justify-between mb-1 text-gray-600 dark:text-gray-400">
+                <span>Computing trace…</span>
+                <span>{Math.round(traceProgress * 100)}%</span>
+              </div>
+              <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <motion.div
+                  className="h-full bg-blue-500"
+                  animate={{ width: `${traceProgress * 100}%` }}
+                  transition={{ duration: 0.2 }}
+                />
+              </div>
+            </div>
+          )}
+          
+          {stepCount > 0 ? (
             <div className="space-y-4">
               <div className="text-sm flex justify-between">
-                <span className="font-bold">Step {currentStepIndex + 1} of {steps.length}</span>
-                <span className="text-blue-500">{Math.round((currentStepIndex / (steps.length - 1)) * 100)}% complete</span>
+                <span className="font-bold">Step {currentStepIndex + 1} of {stepCount}</span>
+                <span className="flex gap-3">
+                  <button
+                    className="text-xs text-blue-500 hover:underline disabled:opacity-50 disabled:no-underline"
+                    onClick={handleCopyLink}
+                    disabled={isLinkTooLong}
+                    title={isLinkTooLong ? 'The inputs are too long to fit in a link' : undefined}
+                  >
+                    {linkCopyStatus === 'copied' ? 'Link copied' : linkCopyStatus === 'failed' ? 'Copy failed, use the address bar' : 'Copy link to this step'}
+                  </button>
+                  <span className="text-blue-500">{Math.round((currentStepIndex / (stepCount - 1)) * 100)}% complete</span>
+                </span>
               </div>
               
-              <motion.div 
-                className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 text-sm"
-                key={currentStepIndex}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ duration: 0.5 }}
-              >
-                {getSimpleDescription()}
-              </motion.div>
+              <input
+                type="range"
+                aria-label="Jump to step"
+                min="0"
+                max={stepCount - 1}
+                className="w-full"
+                value={currentStepIndex}
+                onChange={(e) => setCurrentStepIndex(Number(e.target.value))}
+              />
               
-              {/* Character transformation display */}
-              {Array.from({ length: mode === 'encrypt' ? input.length : (input.length / 2) }).map((_, idx) => 
-                renderCharTransformation(idx)
-              )}
+              {currentStep ? (
+                <>
+                <motion.div 
+                  className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 text-sm"
+                  key={currentStepIndex}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ duration: 0.5 }}
+                >
+                  {getSimpleDescription()}
+                </motion.div>
               
-              {/* Text progress display */}
-              {renderTextProgress()}
+                {/* Character transformation display */}
+                {renderCharTransformation()}
               
-              <div className="relative overflow-hidden bg-gradient-to-b from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-900/30 rounded-lg p-4">
-                <h3 className="text-sm font-medium mb-3">ASCON Internal State Blocks</h3>
+                {/* Text progress display */}
+                {renderTextProgress()}
                 
-                {/* Redesigned state blocks layout */}
-                <div className="space-y-6">
-                  {/* Current operation panel at the top */}
-                  <div className="bg-white/80 dark:bg-black/20 p-3 rounded-md">
-                    <h4 className="font-medium text-sm mb-2">Current Operation</h4>
-                    <div className="text-sm font-medium text-blue-600 dark:text-blue-400">
-                      {currentStep.step} {currentStep.substep ? `- ${currentStep.substep}` : ""}
-                    </div>
+                {/* Avalanche comparison with the flipped-bit trace */}
+                {renderAvalanche()}
+              
+                <div className="relative overflow-hidden bg-gradient-to-b from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-900/30 rounded-lg p-4">
+                  <h3 className="text-sm font-medium mb-3">ASCON Internal State Blocks</h3>
+                
+                  {/* Redesigned state blocks layout */}
+                  <div className="space-y-6">
+                    {/* Current operation panel at the top */}
+                    <div className="bg-white/80 dark:bg-black/20 p-3 rounded-md">
+                      <h4 className="font-medium text-sm mb-2">Current Operation</h4>
+                      <div className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                        {currentStep.step} {currentStep.substep ? `- ${currentStep.substep}` : ""}
+                      </div>
                     
-                    {currentStep.step.includes("Processing") && (
-                      <div className="mt-2 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded-md">
-                        <div className="text-xs font-medium mb-1">What's happening:</div>
-                        <div className="text-xs">
-                          {mode === 'encrypt' 
-                            ? "The plaintext is being XORed with the first state block to create ciphertext" 
-                            : "The ciphertext is being XORed with the first state block to recover plaintext"}
+                      {isAeadMode && currentStep.tag && (
+                        <div className={`mt-2 p-2 rounded-md ${currentStep.verification?.valid === false ? 'bg-red-50 dark:bg-red-900/20' : 'bg-yellow-50 dark:bg-yellow-900/20'}`}>
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          {currentStep.verification ? (
+                            <div className="text-xs space-y-1">
+                              <div>
+                                The key is XORed into the last {currentStep.tag.length / 2} bytes of the state to recompute the tag, which is compared in constant time with the tag received after the ciphertext.
+                              </div>
+                              <div className="font-mono break-all">Received: {currentStep.verification.receivedTag}</div>
+                              <div className="font-mono break-all">Computed: {currentStep.tag}</div>
+                              <div className="font-medium">
+                                {currentStep.verification.valid
+                                  ? "The tags match, so the plaintext is released."
+                                  : "The tags differ, so the plaintext is discarded."}
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="text-xs">
+                              The key is XORed into the last {currentStep.tag.length / 2} bytes of the state, which are read out as the {currentStep.tag.length * 4}-bit tag <span className="font-mono break-all">{currentStep.tag}</span> and appended to the ciphertext.
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    )}
+                      )}
+
+                      {currentStep.step.includes("Processing associated data") && (
+                        <div className="mt-2 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            Associated data block <span className="font-mono">{currentStep.associatedDataHex}</span> is being XORed into the rate blocks. It is authenticated but not encrypted, so any change to it changes the tag.
+                          </div>
+                        </div>
+                      )}
                     
-                    {currentStep.substep === "Addition of round constant" && (
-                      <div className="mt-2 bg-green-50 dark:bg-green-900/20 p-2 rounded-md">
-                        <div className="text-xs font-medium mb-1">What's happening:</div>
-                        <div className="text-xs">
-                          Constant value 0x{ROUND_CONSTANTS[currentStep.roundNumber || 0].toString(16)} is being XORed with state block 3 to add randomness
+                      {currentStep.step.includes("Absorbing") && (
+                        <div className="mt-2 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            {currentStep.substep} <span className="font-mono">{currentStep.messageBlockHex}</span> into the rate {rateWords > 1 ? 'blocks' : 'block'}, followed by 12 rounds of the permutation
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
                     
-                    {currentStep.substep === "Substitution layer" && (
-                      <div className="mt-2 bg-purple-50 dark:bg-purple-900/20 p-2 rounded-md">
-                        <div className="text-xs font-medium mb-1">What's happening:</div>
-                        <div className="text-xs">
-                          Each bit in all state blocks is being flipped (0→1, 1→0) to add confusion
+                      {currentStep.step.includes("Squeezing") && (
+                        <div className="mt-2 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            {mode === 'mac'
+                              ? `Blocks 1-2 are read out as the next 16 bytes of the ${macOutputLength}-byte ${macVariant === 'Ascon-Mac' ? 'tag' : 'output'}`
+                              : `The rate block is read out as the next 8 bytes of the ${mode === 'hash' ? '256-bit digest' : `${outputLength}-byte output`}`}, with 12 rounds of the permutation between reads
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
                     
-                    {currentStep.substep === "Linear diffusion layer" && (
-                      <div className="mt-2 bg-blue-50 dark:bg-blue-900/20 p-2 rounded-md">
-                        <div className="text-xs font-medium mb-1">What's happening:</div>
-                        <div className="text-xs">
-                          Bits in each state block are being rotated to mix and spread changes throughout the state
+                      {(currentStep.step.includes("Processing plaintext") || currentStep.step.includes("Processing ciphertext")) && (
+                        <div className="mt-2 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            {isEncryptMode 
+                              ? `A ${aeadVariant.rateBytes}-byte plaintext block is being XORed into the rate to create the ciphertext block` 
+                              : `A ${aeadVariant.rateBytes}-byte ciphertext block is being XORed with the rate to recover the plaintext block, and then replaces it`}
+                          </div>
                         </div>
-                      </div>
-                    )}
-                  </div>
+                      )}
+                    
+                      {currentStep.step.includes("Padding last block") && (
+                        <div className="mt-2 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            The last block is filled up with a single 1 bit followed by zeros (10* padding). A message that exactly fills its last block gets a whole block of padding, so no two messages pad to the same blocks.
+                          </div>
+                        </div>
+                      )}
+                    
+                      {currentStep.substep === "Addition of round constant" && (
+                        <div className="mt-2 bg-green-50 dark:bg-green-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            Constant value 0x{(currentStep.roundConstant ?? 0).toString(16)} is being XORed with state block 3 to make every round different
+                          </div>
+                        </div>
+                      )}
+                    
+                      {currentStep.substep === "Substitution layer" && (
+                        <div className="mt-2 bg-purple-50 dark:bg-purple-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            A 5-bit S-box is applied to each of the 64 columns, taking one bit from every state block, to add confusion. Pick a column to see its substitution.
+                          </div>
+                          {renderSboxColumns()}
+                        </div>
+                      )}
+                    
+                      {currentStep.substep === "Linear diffusion layer" && (
+                        <div className="mt-2 bg-blue-50 dark:bg-blue-900/20 p-2 rounded-md">
+                          <div className="text-xs font-medium mb-1">What&apos;s happening:</div>
+                          <div className="text-xs">
+                            Each state block is XORed with two rotated copies of itself, Σi(x) = x ⊕ (x ⋙ r1) ⊕ (x ⋙ r2), to spread changes throughout the state. Each block card shows its word, both rotations and the result.
+                          </div>
+                        </div>
+                      )}
+                    </div>
 
-                  {/* Row of state blocks with adequate spacing */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-5 gap-4">
-                    {currentStep.state.map((word, index) => {
-                      // Convert word to binary representation for visualization
-                      const bits = word.toString(2).padStart(64, '0');
-                      // Count 1s for intensity
-                      const intensity = (bits.match(/1/g) || []).length / 64;
+                    {/* Row of state blocks with adequate spacing */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-5 gap-4">
+                      {currentStep.state.map((word, index) => {
+                        // Convert word to binary representation for visualization
+                        const bits = word.toString(2).padStart(64, '0');
+                        // Count 1s for intensity
+                        const intensity = (bits.match(/1/g) || []).length / 64;
                       
-                      // Determine the role of each block
-                      let blockRole = "";
-                      let roleDescription = "";
-                      if (index === 0) {
-                        blockRole = "Rate Block";
-                        roleDescription = "Interacts with plaintext/ciphertext";
-                      } else if (index === 1 || index === 2) {
-                        blockRole = "Key Block";
-                        roleDescription = "Contains key material";
-                      } else if (index === 3 || index === 4) {
-                        blockRole = "Capacity Block";
-                        roleDescription = "Preserves internal state security";
-                      }
+                        // Determine the role of each block
+                        let blockRole = "";
+                        let roleDescription = "";
+                        if (index < rateWords) {
+                          blockRole = "Rate Block";
+                          roleDescription = isAeadMode
+                            ? "Interacts with plaintext/ciphertext"
+                            : "Absorbs the message and yields the output";
+                        } else {
+                          blockRole = "Capacity Block";
+                          roleDescription = "Preserves internal state security";
+                        }
                       
-                      const displayBits = bits.substring(0, 16) + "..." + bits.substring(bits.length - 16);
-                      const stateHex = formatStateWord(word);
+                        const displayBits = bits.substring(0, 16) + "..." + bits.substring(bits.length - 16);
+                        const stateHex = formatStateWord(word);
                       
-                      return (
-                        <motion.div 
-                          key={`state-block-${index}`}
-                          className="border rounded-md overflow-hidden bg-white dark:bg-gray-800"
-                          initial={{ opacity: 0.9 }}
-                          animate={{ 
-                            opacity: 1,
-                            transition: { duration: 0.3 }
-                          }}
-                          layout
-                        >
-                          <div className="bg-blue-500 text-white p-2 text-center text-sm font-semibold">
-                            State Block {index + 1}: {blockRole}
-                          </div>
-                          <div className="p-3">
-                            <div className="text-xs text-gray-500 mb-2">
-                              {roleDescription}
-                            </div>
-                            
-                            <div className="font-mono text-xs mb-3 overflow-hidden">
-                              <span className="font-medium">Hex:</span> {stateHex}
+                        return (
+                          <motion.div 
+                            key={`state-block-${index}`}
+                            className="border rounded-md overflow-hidden bg-white dark:bg-gray-800"
+                            initial={{ opacity: 0.9 }}
+                            animate={{ 
+                              opacity: 1,
+                              transition: { duration: 0.3 }
+                            }}
+                            layout
+                          >
+                            <div className="bg-blue-500 text-white p-2 text-center text-sm font-semibold">
+                              State Block {index + 1}: {blockRole}
                             </div>
+                            <div className="p-3">
+                              <div className="text-xs text-gray-500 mb-2">
+                                {roleDescription}
+                              </div>
                             
-                            <div className="mt-3">
-                              <div className="flex justify-between text-xs mb-1">
-                                <span>Bit distribution:</span>
-                                <span className="font-medium">{Math.round(intensity * 100)}% ones</span>
+                              <div className="font-mono text-xs mb-3 overflow-hidden">
+                                <span className="font-medium">Hex:</span> {stateHex}
                               </div>
-                              <div className="h-5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden relative">
+                            
+                              {currentStep.diffusionInput && currentStep.diffusionRotations && (
                                 <motion.div 
-                                  className="h-full bg-blue-500" 
-                                  style={{ width: `${Math.round(intensity * 100)}%` }}
-                                  initial={{ width: 0 }}
-                                  animate={{ width: `${Math.round(intensity * 100)}%` }}
+                                  className="font-mono text-[11px] mb-3 bg-blue-50 dark:bg-blue-900/20 p-2 rounded space-y-0.5"
+                                  key={`diffusion-${currentStepIndex}-${index}`}
+                                  initial={{ opacity: 0 }}
+                                  animate={{ opacity: 1 }}
                                   transition={{ duration: 0.3 }}
-                                />
+                                >
+                                  <div className="font-sans font-medium text-xs mb-1">Σ{index}(x{index})</div>
+                                  <div className="flex justify-between gap-2">
+                                    <span>x{index}</span>
+                                    <span>{formatStateWord(currentStep.diffusionInput[index])}</span>
+                                  </div>
+                                  <div className="flex justify-between gap-2">
+                                    <span>⊕ x{index} ⋙ {LINEAR_ROTATIONS[index][0]}</span>
+                                    <span>{formatStateWord(currentStep.diffusionRotations[index][0])}</span>
+                                  </div>
+                                  <div className="flex justify-between gap-2">
+                                    <span>⊕ x{index} ⋙ {LINEAR_ROTATIONS[index][1]}</span>
+                                    <span>{formatStateWord(currentStep.diffusionRotations[index][1])}</span>
+                                  </div>
+                                  <div className="flex justify-between gap-2 border-t border-blue-200 dark:border-blue-800 pt-0.5 font-semibold">
+                                    <span>=</span>
+                                    <span>{stateHex}</span>
+                                  </div>
+                                </motion.div>
+                              )}
+                            
+                              <div className="mt-3">
+                                <div className="flex justify-between text-xs mb-1">
+                                  <span>Bit distribution:</span>
+                                  <span className="font-medium">{Math.round(intensity * 100)}% ones</span>
+                                </div>
+                                <div className="h-5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden relative">
+                                  <motion.div 
+                                    className="h-full bg-blue-500" 
+                                    style={{ width: `${Math.round(intensity * 100)}%` }}
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${Math.round(intensity * 100)}%` }}
+                                    transition={{ duration: 0.3 }}
+                                  />
+                                </div>
                               </div>
-                            </div>
                             
-                            <div className="mt-3 text-xs font-mono">
-                              <div className="flex flex-col">
-                                <span className="font-medium">Bits sample:</span>
-                                <div className="bg-gray-50 dark:bg-gray-900 p-1 mt-1 rounded overflow-x-auto whitespace-nowrap">
-                                  {displayBits}
+                              <div className="mt-3 text-xs font-mono">
+                                <div className="flex flex-col">
+                                  <span className="font-medium">Bits sample:</span>
+                                  <div className="bg-gray-50 dark:bg-gray-900 p-1 mt-1 rounded overflow-x-auto whitespace-nowrap">
+                                    {displayBits}
+                                  </div>
                                 </div>
                               </div>
                             </div>
-                          </div>
-                        </motion.div>
-                      );
-                    })}
+                          </motion.div>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
                 
-                {/* Animated visualization of operations */}
-                {isPlaying && currentStep.substep && (
-                  <div className="absolute inset-0 pointer-events-none">
-                    {currentStep.substep === "Addition of round constant" && (
-                      <motion.div 
-                        className="absolute right-10 top-1/2 w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-xs font-bold"
-                        initial={{ x: 100, y: 0, opacity: 0 }}
-                        animate={{ x: 0, y: 0, opacity: 1 }}
-                        transition={{ 
-                          duration: 1,
-                          repeat: Infinity,
-                          repeatType: "reverse"
-                        }}
-                      >
-                        XOR
-                      </motion.div>
-                    )}
-                    
-                    {currentStep.substep === "Substitution layer" && (
-                      Array.from({ length: 10 }).map((_, idx) => (
-                        <motion.div
-                          key={`flip-${idx}`}
-                          className="absolute w-6 h-6 flex items-center justify-center"
-                          initial={{ 
-                            x: Math.random() * 300, 
-                            y: Math.random() * 200,
-                            opacity: 0
-                          }}
-                          animate={{ 
-                            opacity: [0, 1, 0],
-                            scale: [0.5, 1.5, 0.5],
-                            rotateY: [0, 180]
-                          }}
+                  {/* Animated visualization of operations */}
+                  {isPlaying && currentStep.substep && (
+                    <div className="absolute inset-0 pointer-events-none">
+                      {currentStep.substep === "Addition of round constant" && (
+                        <motion.div 
+                          className="absolute right-10 top-1/2 w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-xs font-bold"
+                          initial={{ x: 100, y: 0, opacity: 0 }}
+                          animate={{ x: 0, y: 0, opacity: 1 }}
                           transition={{ 
-                            duration: 1 + Math.random(),
+                            duration: 1,
                             repeat: Infinity,
-                            delay: Math.random() * 0.5
+                            repeatType: "reverse"
                           }}
                         >
-                          <div className="text-xs font-mono">
-                            {Math.random() > 0.5 ? "1→0" : "0→1"}
-                          </div>
+                          XOR
                         </motion.div>
-                      ))
-                    )}
+                      )}
+                    
+                      {currentStep.substep === "Substitution layer" && currentStep.sboxInput && currentStep.sboxOutput && (
+                        Array.from({ length: 10 }).map((_, idx) => (
+                          <motion.div
+                            key={`flip-${idx}`}
+                            className="absolute w-6 h-6 flex items-center justify-center"
+                            initial={{ 
+                              x: Math.random() * 300, 
+                              y: Math.random() * 200,
+                              opacity: 0
+                            }}
+                            animate={{ 
+                              opacity: [0, 1, 0],
+                              scale: [0.5, 1.5, 0.5],
+                              rotateY: [0, 180]
+                            }}
+                            transition={{ 
+                              duration: 1 + Math.random(),
+                              repeat: Infinity,
+                              delay: Math.random() * 0.5
+                            }}
+                          >
+                            <div className="text-xs font-mono whitespace-nowrap">
+                              {formatColumn(currentStep.sboxInput![idx * 6])}→{formatColumn(currentStep.sboxOutput![idx * 6])}
+                            </div>
+                          </motion.div>
+                        ))
+                      )}
                     
-                    {currentStep.substep === "Linear diffusion layer" && (
-                      Array.from({ length: 10 }).map((_, idx) => (
+                      {currentStep.substep === "Linear diffusion layer" && (
+                        Array.from({ length: 10 }).map((_, idx) => (
+                          <motion.div
+                            key={`rotate-${idx}`}
+                            className="absolute w-6 h-6 bg-blue-500/20 rounded-full flex items-center justify-center"
+                            initial={{ 
+                              x: Math.random() * 300, 
+                              y: Math.random() * 200,
+                              opacity: 0
+                            }}
+                            animate={{ 
+                              opacity: [0, 1, 0],
+                              rotate: [0, 360]
+                            }}
+                            transition={{ 
+                              duration: 1.5,
+                              repeat: Infinity,
+                              delay: Math.random() * 0.5
+                            }}
+                          >
+                            <div className="text-xs font-mono">↻</div>
+                          </motion.div>
+                        ))
+                      )}
+                    
+                      {currentStep.step.includes("Processing") && (
                         <motion.div
-                          key={`rotate-${idx}`}
-                          className="absolute w-6 h-6 bg-blue-500/20 rounded-full flex items-center justify-center"
-                          initial={{ 
-                            x: Math.random() * 300, 
-                            y: Math.random() * 200,
-                            opacity: 0
-                          }}
-                          animate={{ 
-                            opacity: [0, 1, 0],
-                            rotate: [0, 360]
-                          }}
-                          transition={{ 
-                            duration: 1.5,
-                            repeat: Infinity,
-                            delay: Math.random() * 0.5
-                          }}
+                          className="absolute top-1/4 left-1/2 transform -translate-x-1/2 -translate-y-1/2 px-4 py-2 bg-yellow-500/70 text-white rounded-lg text-sm"
+                          initial={{ opacity: 0, y: -20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ duration: 0.5 }}
                         >
-                          <div className="text-xs font-mono">↻</div>
+                          XOR Operation
                         </motion.div>
-                      ))
-                    )}
-                    
-                    {currentStep.step.includes("Processing") && (
-                      <motion.div
-                        className="absolute top-1/4 left-1/2 transform -translate-x-1/2 -translate-y-1/2 px-4 py-2 bg-yellow-500/70 text-white rounded-lg text-sm"
-                        initial={{ opacity: 0, y: -20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ duration: 0.5 }}
-                      >
-                        XOR Operation
-                      </motion.div>
-                    )}
-                  </div>
-                )}
-              </div>
+                      )}
+                    </div>
+                  )}
+                </div>
               
-              {showAdvanced && (
-                <motion.div 
-                  className="space-y-2 mt-2"
-                  initial={{ height: 0, opacity: 0 }}
-                  animate={{ height: "auto", opacity: 1 }}
-                  exit={{ height: 0, opacity: 0 }}
-                >
-                  <h3 className="font-medium text-sm">Technical Details:</h3>
-                  <div className="font-mono text-xs bg-black/10 dark:bg-white/10 p-2 rounded overflow-x-auto">
-                    {currentStep.state.map((word, index) => (
-                      <div key={index} className="flex justify-between mb-1">
-                        <span>x{index}:</span>
-                        <span>{formatStateWord(word)}</span>
-                      </div>
-                    ))}
-                  </div>
-                  <div className="text-xs mt-1">
-                    <span className="font-bold">Operation:</span> {currentStep.step}
-                    {currentStep.roundNumber !== undefined && ` (Round ${currentStep.roundNumber + 1})`}
-                    {currentStep.substep && ` - ${currentStep.substep}`}
-                  </div>
-                </motion.div>
+                {showAdvanced && (
+                  <motion.div 
+                    className="space-y-2 mt-2"
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: "auto", opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                  >
+                    <h3 className="font-medium text-sm">Technical Details:</h3>
+                    <div className="font-mono text-xs bg-black/10 dark:bg-white/10 p-2 rounded overflow-x-auto">
+                      {currentStep.state.map((word, index) => (
+                        <div key={index} className="flex justify-between mb-1">
+                          <span>x{index}:</span>
+                          <span>{formatStateWord(word)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="text-xs mt-1">
+                      <span className="font-bold">Operation:</span> {currentStep.step}
+                      {currentStep.roundNumber !== undefined && ` (Round ${currentStep.roundNumber + 1})`}
+                      {currentStep.substep && ` - ${currentStep.substep}`}
+                    </div>
+                  </motion.div>
+                )}
+                </>
+              ) : (
+                <div className="flex items-center justify-center h-48 bg-gray-50 dark:bg-gray-800/50 rounded-lg text-gray-500">
+                  Loading step {currentStepIndex + 1}…
+                </div>
               )}
             </div>
           ) : (
@@ -837,21 +2516,25 @@ export default function AsconVisualizer() {
                 <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
               </motion.svg>
               <p className="text-gray-500 text-center">
-                {input ? 'Click "Play" to start visualization' : 
-                  mode === 'encrypt' ? 'Enter your message to encrypt' : 'Enter ciphertext (hex) to decrypt'}
+                {traceProgress !== null ? 'Computing trace…' :
+                  input ? 'Click "Play" to start visualization' : 
+                  MODE_LABELS[mode].prompt}
               </p>
             </div>
           )}
         </motion.div>
       </div>
       
+      {/* Nonce-reuse walkthrough */}
+      {renderNonceReuse()}
+      
       <motion.div 
         className="border rounded-md p-4 bg-white/5 border-gray-300 dark:border-gray-700"
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.5, delay: 0.2 }}
       >
-        <h2 className="text-xl font-bold mb-2">How ASCON {mode === 'encrypt' ? 'Encryption' : 'Decryption'} Works</h2>
+        <h2 className="text-xl font-bold mb-2">How ASCON {MODE_LABELS[mode].title} Works</h2>
         
         <div className="mb-4">
           <h3 className="text-md font-semibold mb-2">Understanding State Blocks</h3>
@@ -859,9 +2542,8 @@ export default function AsconVisualizer() {
             ASCON encryption uses a 320-bit <strong>state</strong> divided into 5 blocks of 64 bits each. These state blocks serve different purposes:
           </p>
           <ul className="list-disc list-inside text-sm mb-3 space-y-1">
-            <li><strong>Rate Block (Block 1)</strong>: Directly interacts with the plaintext or ciphertext during encryption/decryption.</li>
-            <li><strong>Key Blocks (Blocks 2-3)</strong>: Hold parts of the encryption key, which ensures only someone with the key can decrypt.</li>
-            <li><strong>Capacity Blocks (Blocks 4-5)</strong>: Maintain the internal security of the algorithm, never directly exposed to input/output.</li>
+            <li><strong>{rateWords > 1 ? `Rate Blocks (Blocks 1-${rateWords})` : 'Rate Block (Block 1)'}</strong>: Directly interact{rateWords > 1 ? '' : 's'} with the input or output, {rateWords * 8} bytes at a time.</li>
+            <li><strong>Capacity Blocks (Blocks {rateWords + 1}-5)</strong>: Maintain the internal security of the algorithm, never directly exposed to input/output. The key is mixed into them at the start and the end.</li>
           </ul>
           
           <h3 className="text-md font-semibold mb-2">Core Operations</h3>
@@ -870,8 +2552,8 @@ export default function AsconVisualizer() {
           </p>
           <ul className="list-disc list-inside text-sm mb-3 space-y-1">
             <li><strong>Addition of Round Constants</strong>: Adds specific values to block 3 in each round to prevent symmetry attacks.</li>
-            <li><strong>Substitution Layer</strong>: Flips bits (0→1, 1→0) in groups across all blocks, creating cryptographic confusion.</li>
-            <li><strong>Linear Diffusion</strong>: Rotates and mixes bits within each block, ensuring changes spread throughout the entire state (diffusion).</li>
+            <li><strong>Substitution Layer</strong>: Runs every 5-bit column (one bit from each block) through a small S-box, creating cryptographic confusion.</li>
+            <li><strong>Linear Diffusion</strong>: XORs each block with two rotated copies of itself, ensuring changes spread throughout the entire state (diffusion).</li>
           </ul>
           
           <h3 className="text-md font-semibold mb-2">Why These Operations?</h3>
@@ -887,20 +2569,63 @@ export default function AsconVisualizer() {
         </div>
         
         <div className="text-sm">
-          {mode === 'encrypt' ? (
+          {isEncryptMode ? (
             <>
               <p className="mb-2">
                 ASCON takes your plain text message and transforms it into encrypted ciphertext through these steps:
               </p>
               <ol className="list-decimal list-inside mt-2 space-y-1">
                 <li>The algorithm starts with an empty state (5 blocks)</li>
-                <li>Your secret key and a unique number (nonce) are mixed into the state</li>
-                <li>Multiple rounds of mixing operations are performed to increase security</li>
-                <li>Each character of your message is processed one by one, combining with the state</li>
+                <li>A fixed IV, your secret key and a unique number (nonce) are loaded into the state</li>
+                <li>{aeadVariant.roundsA} rounds of mixing operations are performed, then the key is mixed in again</li>
+                <li>Any associated data is absorbed block by block, then one bit is flipped to separate it from the message</li>
+                <li>Your message is processed in {aeadVariant.rateBytes}-byte blocks, with {aeadVariant.roundsB} mixing rounds between blocks</li>
                 <li>The state value creates the encrypted ciphertext for each character</li>
                 <li>Final mixing rounds are performed to generate an authentication tag</li>
               </ol>
             </>
+          ) : mode === 'mac' ? (
+            <>
+              <p className="mb-2">
+                Ascon-Mac and Ascon-Prf authenticate a message with a secret key, without encrypting it:
+              </p>
+              <ol className="list-decimal list-inside mt-2 space-y-1">
+                <li>An IV describing the variant and your 128-bit key are loaded into the state, followed by twelve mixing rounds</li>
+                <li>Your message is padded and absorbed 32 bytes at a time into blocks 1-4, with twelve mixing rounds between blocks</li>
+                <li>One bit of block 5 is flipped on the last block, then twelve more mixing rounds are performed</li>
+                <li>The tag (Ascon-Mac) or output (Ascon-Prf) is read from blocks 1-2, 16 bytes at a time</li>
+                <li>Ascon-PrfShort instead loads a message of up to 16 bytes directly into the state and needs only one permutation call</li>
+              </ol>
+              <p className="mt-2">
+                Unlike a hash, nobody without the key can compute or check the tag. Unlike AEAD, there is no nonce and no ciphertext: the message stays in the clear.
+              </p>
+            </>
+          ) : mode === 'xof' ? (
+            <>
+              <p className="mb-2">
+                Ascon-XOF128 and Ascon-CXOF128 turn a message into as many output bytes as you ask for:
+              </p>
+              <ol className="list-decimal list-inside mt-2 space-y-1">
+                <li>The state starts with the XOF (or CXOF) IV in block 1 and zeros elsewhere, followed by twelve mixing rounds</li>
+                <li>CXOF first absorbs the bit length of the customization string, then the string itself</li>
+                <li>Your message is padded and absorbed 8 bytes at a time, with twelve mixing rounds after each block</li>
+                <li>Output is squeezed from block 1 8 bytes at a time until the requested length is reached</li>
+                <li>Asking for more output never changes the bytes already emitted, which makes XOFs handy for key derivation</li>
+              </ol>
+            </>
+          ) : mode === 'hash' ? (
+            <>
+              <p className="mb-2">
+                Ascon-Hash256 condenses a message of any length into a 256-bit digest through these steps:
+              </p>
+              <ol className="list-decimal list-inside mt-2 space-y-1">
+                <li>The state starts with the fixed hash IV in block 1 and zeros elsewhere; there is no key or nonce</li>
+                <li>Twelve rounds of mixing operations are performed</li>
+                <li>Your message is padded and absorbed 8 bytes at a time into block 1, with twelve mixing rounds after each block</li>
+                <li>The digest is squeezed out of block 1 8 bytes at a time, with twelve mixing rounds between reads</li>
+                <li>Four reads give the 32-byte (256-bit) digest</li>
+              </ol>
+            </>
           ) : (
             <>
               <p className="mb-2">
@@ -909,9 +2634,9 @@ export default function AsconVisualizer() {
               <ol className="list-decimal list-inside mt-2 space-y-1">
                 <li>The algorithm starts with the same empty state as encryption</li>
                 <li>The same secret key and nonce are mixed into the state</li>
-                <li>The same initial mixing operations are performed</li>
+                <li>The same initial mixing operations are performed, and the same associated data is absorbed</li>
                 <li>The ciphertext is processed to recover the original plaintext</li>
-                <li>Finally, the authentication tag is verified to ensure the message wasn't tampered with</li>
+                <li>Finally, the 128-bit authentication tag is verified; if it does not match, the message is rejected and no plaintext is released</li>
               </ol>
             </>
           )}
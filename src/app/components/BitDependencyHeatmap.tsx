@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { bitDependencyRounds, dependencyCount, wordDependencyFraction, stateBitIndex, STATE_BITS } from '../lib/diffusion';
+
+const MAX_ROUNDS = 12; // Rounds shown, as many as the longest permutation p12
+
+type HeatmapView = 'bits' | 'words';
+
+// Helper function to name a state bit, e.g. x2[63]
+const formatBit = (bit: number) => `x${Math.floor(bit / 64)}[${bit % 64}]`;
+
+// Helper function to find the bit drawn at row or column `offset`, which shows each word from its
+// most significant bit down, in the order the hex words read
+const bitAtOffset = (offset: number) => stateBitIndex(Math.floor(offset / 64), 63 - (offset % 64));
+
+export default function BitDependencyHeatmap() {
+  const [round, setRound] = useState(1);
+  const [view, setView] = useState<HeatmapView>('bits');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [hoveredCell, setHoveredCell] = useState<[number, number] | null>(null); // [output bit, input bit]
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const animationRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Dependencies after every round count, computed once
+  const history = useMemo(() => bitDependencyRounds(MAX_ROUNDS), []);
+  const dependencies = history[round];
+  const previous = round > 0 ? history[round - 1] : null;
+
+  const counts = useMemo(() => dependencies.map(dependencyCount), [dependencies]);
+  const dependentPairs = counts.reduce((sum, count) => sum + count, 0);
+  const fullDiffusionRound = history.findIndex(rounds => rounds.every(mask => dependencyCount(mask) === STATE_BITS));
+
+  // Draw one pixel per (output bit, input bit) pair, marking the pairs added in this round
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || view !== 'bits') return;
+
+    const image = context.createImageData(STATE_BITS, STATE_BITS);
+    for (let row = 0; row < STATE_BITS; row++) {
+      const outputBit = bitAtOffset(row);
+      const mask = dependencies[outputBit];
+      const previousMask = previous ? previous[outputBit] : 0n;
+      for (let column = 0; column < STATE_BITS; column++) {
+        const inputBit = BigInt(bitAtOffset(column));
+        const pixel = 4 * (row * STATE_BITS + column);
+        const isDependent = (mask >> inputBit) & 1n;
+        const isNew = isDependent && !((previousMask >> inputBit) & 1n);
+        const isBoundary = row % 64 === 0 || column % 64 === 0;
+        const [red, green, blue] = isNew ? [249, 115, 22] : isDependent ? [59, 130, 246] : isBoundary ? [156, 163, 175] : [229, 231, 235];
+        image.data[pixel] = red;
+        image.data[pixel + 1] = green;
+        image.data[pixel + 2] = blue;
+        image.data[pixel + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }, [dependencies, previous, view]);
+
+  // Handle play/pause animation, one round per second
+  useEffect(() => {
+    if (isPlaying) {
+      animationRef.current = setTimeout(() => {
+        if (round < MAX_ROUNDS) {
+          setRound(prev => prev + 1);
+        } else {
+          setIsPlaying(false);
+        }
+      }, 1000);
+    }
+
+    return () => {
+      if (animationRef.current) {
+        clearTimeout(animationRef.current);
+      }
+    };
+  }, [isPlaying, round]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && round === MAX_ROUNDS) setRound(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  // Track the pair under the pointer
+  const handleCanvasMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const column = Math.floor(((e.clientX - bounds.left) / bounds.width) * STATE_BITS);
+    const row = Math.floor(((e.clientY - bounds.top) / bounds.height) * STATE_BITS);
+    if (row >= 0 && row < STATE_BITS && column >= 0 && column < STATE_BITS) {
+      setHoveredCell([bitAtOffset(row), bitAtOffset(column)]);
+    }
+  };
+
+  return (
+    <motion.div
+      className="w-full max-w-6xl mx-auto p-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="border rounded-md p-4 bg-white/5 border-gray-300 dark:border-gray-700 space-y-4">
+        <h2 className="text-xl font-bold">Bit Dependency Heatmap</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Row = output bit, column = input bit. A cell is filled once the output bit can depend on the input bit, following
+          how the S-box mixes each column and how Σ0–Σ4 mix each word. Orange cells were added by the latest round.
+          {fullDiffusionRound > 0 && ` Every output bit depends on every input bit after ${fullDiffusionRound} rounds, so p6, p8 and p12 run well past full diffusion.`}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            className="px-4 py-2 rounded-md bg-blue-500 text-white"
+            onClick={handlePlayPause}
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <div className="flex-1 min-w-48">
+            <label htmlFor="dependency-round" className="block text-sm font-medium mb-1">
+              After {round} round{round === 1 ? '' : 's'}
+            </label>
+            <input
+              id="dependency-round"
+              type="range"
+              min="0"
+              max={MAX_ROUNDS}
+              className="w-full"
+              value={round}
+              onChange={(e) => setRound(Number(e.target.value))}
+            />
+          </div>
+          <div className="flex text-sm rounded-md overflow-hidden border border-gray-300 dark:border-gray-700">
+            {(['bits', 'words'] as const).map(option => (
+              <button
+                key={option}
+                className={`px-3 py-1 ${view === option ? 'bg-blue-500 text-white' : ''}`}
+                onClick={() => setView(option)}
+              >
+                {option === 'bits' ? '320 × 320 bits' : '5 × 5 words'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center text-sm">
+          <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+            <div className="text-xs text-gray-500">Dependent pairs</div>
+            <div className="font-mono">{(dependentPairs / (STATE_BITS * STATE_BITS) * 100).toFixed(1)}%</div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+            <div className="text-xs text-gray-500">Fewest inputs per output bit</div>
+            <div className="font-mono">{Math.min(...counts)} / {STATE_BITS}</div>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+            <div className="text-xs text-gray-500">Most inputs per output bit</div>
+            <div className="font-mono">{Math.max(...counts)} / {STATE_BITS}</div>
+          </div>
+        </div>
+
+        {view === 'bits' ? (
+          <div className="space-y-2">
+            <canvas
+              ref={canvasRef}
+              width={STATE_BITS}
+              height={STATE_BITS}
+              className="w-full max-w-2xl mx-auto block aspect-square cursor-crosshair"
+              style={{ imageRendering: 'pixelated' }}
+              onMouseMove={handleCanvasMove}
+              onMouseLeave={() => setHoveredCell(null)}
+            />
+            <p className="text-xs text-center font-mono text-gray-600 dark:text-gray-400 h-4">
+              {hoveredCell
+                ? `${formatBit(hoveredCell[0])} ${(dependencies[hoveredCell[0]] >> BigInt(hoveredCell[1])) & 1n ? 'depends' : 'does not depend yet'} on ${formatBit(hoveredCell[1])} · ${counts[hoveredCell[0]]} input bits in total`
+                : 'Point at a cell to see its bits. Words run x0 to x4, each from bit 63 down to bit 0.'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="mx-auto text-sm font-mono">
+              <thead>
+                <tr>
+                  <th className="p-2 text-xs text-gray-500">out \ in</th>
+                  {[0, 1, 2, 3, 4].map(inputWord => (
+                    <th key={inputWord} className="p-2">x{inputWord}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {[0, 1, 2, 3, 4].map(outputWord => (
+                  <tr key={outputWord}>
+                    <th className="p-2">x{outputWord}</th>
+                    {[0, 1, 2, 3, 4].map(inputWord => {
+                      const fraction = wordDependencyFraction(dependencies, outputWord, inputWord);
+                      return (
+                        <td
+                          key={inputWord}
+                          className="p-3 text-center rounded"
+                          style={{ backgroundColor: `rgba(59, 130, 246, ${0.1 + 0.9 * fraction})` }}
+                          title={`${Math.round(fraction * 4096)} of 4096 bit pairs`}
+                        >
+                          {Math.round(fraction * 100)}%
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,495 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { permuteAsconTrace, inversePermuteAsconTrace, maskedPermuteAsconTrace, seededRandomWords, randomWord, ShareCount, getRoundConstant, INVERSE_LINEAR_ROTATIONS, AsconState, ROUND_CONSTANTS, MAX_PERMUTATION_ROUNDS, wordToHex } from '../lib/ascon';
+import { stateHammingDistance } from '../lib/avalanche';
+
+type PermutationDirection = 'forward' | 'backward';
+
+// Round counts used by the Ascon modes
+const ROUND_PRESETS = [6, 8, 12];
+
+// Starting states to try the permutation on
+const STATE_PRESETS: Record<string, string[]> = {
+  'Zero state': ['0000000000000000', '0000000000000000', '0000000000000000', '0000000000000000', '0000000000000000'],
+  'Single bit': ['8000000000000000', '0000000000000000', '0000000000000000', '0000000000000000', '0000000000000000'],
+  'Ascon-Hash256 IV': ['0000080100cc0002', '0000000000000000', '0000000000000000', '0000000000000000', '0000000000000000']
+};
+
+export default function PermutationPlayground() {
+  const [words, setWords] = useState<string[]>(STATE_PRESETS['Single bit']);
+  const [rounds, setRounds] = useState(12);
+  const [direction, setDirection] = useState<PermutationDirection>('forward');
+  const [useSpecConstants, setUseSpecConstants] = useState(true);
+  const [customFirstConstant, setCustomFirstConstant] = useState(0);
+  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [animationSpeed, setAnimationSpeed] = useState(500); // ms per step
+  const [isMasked, setIsMasked] = useState(false);
+  const [shareCount, setShareCount] = useState<ShareCount>(2);
+  const [maskingSeed, setMaskingSeed] = useState(() => randomWord()); // Seed of the masking randomness, so a run stays put
+  const animationRef = useRef<NodeJS.Timeout | null>(null);
+
+  // p6, p8 and p12 use the last constants of the sequence; a custom index starts anywhere
+  const firstConstant = useSpecConstants ? ROUND_CONSTANTS.length - rounds : customFirstConstant;
+
+  // Helper function to check one 64-bit word entered as hex
+  const getWordError = (value: string, index: number) => {
+    if (!/^[0-9a-fA-F]*$/.test(value)) return `x${index} may only contain hex digits 0-9 and a-f`;
+    if (value.length !== 16) return `x${index} must be exactly 16 hex digits, got ${value.length}`;
+    return '';
+  };
+
+  const wordErrors = words.map(getWordError);
+  const inputError = wordErrors.find(error => error) || '';
+
+  // Masking only applies to the forward permutation
+  const showShares = isMasked && direction === 'forward';
+
+  // The permutation is short, so its whole trace is rebuilt whenever an input changes.
+  // Backward mode treats the entered words as an output and undoes the rounds.
+  const trace = useMemo(() => {
+    if (inputError) return null;
+    const state = words.map(word => BigInt(`0x${word}`)) as AsconState;
+    if (direction === 'backward') return inversePermuteAsconTrace(state, rounds, firstConstant);
+    return showShares
+      ? maskedPermuteAsconTrace(state, rounds, shareCount, firstConstant, seededRandomWords(maskingSeed))
+      : permuteAsconTrace(state, rounds, firstConstant);
+  }, [words, rounds, firstConstant, inputError, direction, showShares, shareCount, maskingSeed]);
+
+  // Random words the masked run has drawn up to the current step
+  const randomWordsSoFar = useMemo(() => {
+    if (!trace || !showShares) return 0;
+    let total = 0;
+    for (let i = 0; i <= currentStepIndex && i < trace.length; i++) {
+      total += trace.getStep(i).freshRandomWords ?? 0;
+    }
+    return total;
+  }, [trace, showShares, currentStepIndex]);
+
+  const stepCount = trace?.length ?? 0;
+  const currentStep = trace && currentStepIndex < stepCount ? trace.getStep(currentStepIndex) : undefined;
+  const previousStep = trace && currentStepIndex > 0 ? trace.getStep(currentStepIndex - 1) : undefined;
+  const outputStep = trace && stepCount > 0 ? trace.getStep(stepCount - 1) : undefined;
+
+  // Start over whenever the trace changes
+  useEffect(() => {
+    setCurrentStepIndex(0);
+    setIsPlaying(false);
+  }, [trace]);
+
+  // Handle play/pause animation
+  useEffect(() => {
+    if (isPlaying && stepCount > 0) {
+      animationRef.current = setTimeout(() => {
+        if (currentStepIndex < stepCount - 1) {
+          setCurrentStepIndex(prev => prev + 1);
+        } else {
+          setIsPlaying(false);
+        }
+      }, animationSpeed);
+    }
+
+    return () => {
+      if (animationRef.current) {
+        clearTimeout(animationRef.current);
+      }
+    };
+  }, [isPlaying, currentStepIndex, stepCount, animationSpeed]);
+
+  const handleWordChange = (index: number, value: string) => {
+    setWords(words.map((word, i) => (i === index ? value.trim() : word)));
+  };
+
+  const handleRandomState = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(40));
+    setWords(Array.from({ length: 5 }, (_, i) =>
+      Array.from(bytes.subarray(8 * i, 8 * i + 8), byte => byte.toString(16).padStart(2, '0')).join('')
+    ));
+  };
+
+  // Feed the final state back in, running the other way, to get the starting state back
+  const handleReverse = () => {
+    if (!outputStep) return;
+    setWords(outputStep.state.map(word => word.toString(16).padStart(16, '0')));
+    setDirection(direction === 'forward' ? 'backward' : 'forward');
+  };
+
+  const handleRoundsChange = (value: number) => {
+    if (Number.isInteger(value) && value >= 0 && value <= MAX_PERMUTATION_ROUNDS) {
+      setRounds(value);
+    }
+  };
+
+  // Render one state word as 64 bits, outlining the bits that changed in this step
+  const renderWordBits = (word: bigint, previousWord: bigint | undefined) => {
+    const changed = previousWord === undefined ? 0n : word ^ previousWord;
+    return (
+      <div className="grid gap-px mt-2" style={{ gridTemplateColumns: 'repeat(32, minmax(0, 1fr))' }}>
+        {Array.from({ length: 64 }, (_, i) => {
+          const shift = BigInt(63 - i);
+          const bit = (word >> shift) & 1n;
+          const flipped = (changed >> shift) & 1n;
+          return (
+            <div
+              key={i}
+              title={`Bit ${63 - i}: ${bit}${flipped ? ' (changed)' : ''}`}
+              className={`h-2 rounded-sm ${bit ? 'bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'} ${flipped ? 'ring-1 ring-orange-500' : ''}`}
+            />
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col space-y-8 w-full max-w-6xl mx-auto p-4">
+      <motion.h1
+        className="text-3xl font-bold text-center"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+      >
+        Ascon Permutation Playground
+      </motion.h1>
+
+      <div className="text-center text-sm">
+        <Link href="/" className="text-blue-500 hover:underline">← Back to the visualizer</Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <motion.div
+          className="space-y-4 md:col-span-1"
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <div className="flex text-sm rounded-md overflow-hidden border border-gray-300 dark:border-gray-700 w-fit">
+            {(['forward', 'backward'] as const).map(option => (
+              <button
+                key={option}
+                className={`px-3 py-1 ${direction === option ? 'bg-blue-500 text-white' : ''}`}
+                onClick={() => setDirection(option)}
+              >
+                {option === 'forward' ? 'Forward p' : 'Backward p⁻¹'}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="block text-sm font-medium">
+              {direction === 'forward' ? 'Input State' : 'Output State to Invert'} (64-bit words, hex)
+            </div>
+            {words.map((word, index) => (
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <label htmlFor={`word-${index}`} className="font-mono text-sm w-6">x{index}</label>
+                  <input
+                    id={`word-${index}`}
+                    type="text"
+                    className={`w-full p-2 border rounded-md bg-white/5 font-mono text-sm ${wordErrors[index] ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'}`}
+                    value={word}
+                    onChange={(e) => handleWordChange(index, e.target.value)}
+                    spellCheck={false}
+                  />
+                </div>
+                {wordErrors[index] && <p className="text-xs text-red-500 mt-1 ml-8">{wordErrors[index]}</p>}
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2 pt-1">
+              {Object.entries(STATE_PRESETS).map(([name, preset]) => (
+                <button
+                  key={name}
+                  className="px-2 py-1 text-xs rounded-md bg-gray-200 dark:bg-gray-700"
+                  onClick={() => setWords(preset)}
+                >
+                  {name}
+                </button>
+              ))}
+              <button
+                className="px-2 py-1 text-xs rounded-md bg-gray-200 dark:bg-gray-700"
+                onClick={handleRandomState}
+              >
+                Random
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2 p-3 rounded-md bg-gray-50 dark:bg-gray-800/50">
+            <label htmlFor="rounds" className="block text-sm font-medium">
+              Rounds: {rounds}
+            </label>
+            <input
+              id="rounds"
+              type="range"
+              min="0"
+              max={MAX_PERMUTATION_ROUNDS}
+              className="w-full"
+              value={rounds}
+              onChange={(e) => handleRoundsChange(Number(e.target.value))}
+            />
+            <div className="flex gap-2">
+              {ROUND_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  className={`px-3 py-1 text-xs rounded-md ${rounds === preset ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+                  onClick={() => setRounds(preset)}
+                >
+                  p{preset}
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm pt-2">
+              <input
+                type="checkbox"
+                checked={useSpecConstants}
+                onChange={(e) => {
+                  setUseSpecConstants(e.target.checked);
+                  setCustomFirstConstant(firstConstant);
+                }}
+              />
+              Use the spec&apos;s round constants for p{rounds}
+            </label>
+            {!useSpecConstants && (
+              <div>
+                <label htmlFor="first-constant" className="block text-xs text-gray-500 mb-1">
+                  First round-constant index (0 is the first constant of p12)
+                </label>
+                <input
+                  id="first-constant"
+                  type="number"
+                  className="w-full p-2 border rounded-md bg-white/5 border-gray-300 dark:border-gray-700 font-mono text-sm"
+                  value={customFirstConstant}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (Number.isInteger(value)) setCustomFirstConstant(value);
+                  }}
+                />
+              </div>
+            )}
+            <div className="text-xs text-gray-500">
+              Constants:{' '}
+              <span className="font-mono">
+                {rounds === 0 ? 'none' : Array.from({ length: rounds }, (_, round) =>
+                  `0x${getRoundConstant(firstConstant + round).toString(16).padStart(2, '0')}`
+                ).join(' ')}
+              </span>
+            </div>
+          </div>
+
+          {direction === 'forward' && (
+            <div className="space-y-2 p-3 rounded-md bg-gray-50 dark:bg-gray-800/50">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={isMasked}
+                  onChange={(e) => setIsMasked(e.target.checked)}
+                />
+                Mask the state (side-channel countermeasure)
+              </label>
+              {isMasked && (
+                <>
+                  <div className="flex items-center gap-2">
+                    {([2, 3] as const).map(option => (
+                      <button
+                        key={option}
+                        className={`px-3 py-1 text-xs rounded-md ${shareCount === option ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+                        onClick={() => setShareCount(option)}
+                      >
+                        {option} shares
+                      </button>
+                    ))}
+                    <button
+                      className="px-3 py-1 text-xs rounded-md bg-gray-200 dark:bg-gray-700"
+                      onClick={() => setMaskingSeed(randomWord())}
+                    >
+                      New randomness
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {shareCount === 2
+                      ? 'Two shares with domain-oriented masking: each AND gate of the S-box takes one fresh random word.'
+                      : 'Three shares with a threshold implementation: no S-box output share sees all input shares, and two fresh random words per state word re-mask the output.'}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label htmlFor="playground-speed" className="block text-sm font-medium">
+              Animation Speed
+            </label>
+            <input
+              id="playground-speed"
+              type="range"
+              min="100"
+              max="2000"
+              step="100"
+              className="w-full"
+              value={2100 - animationSpeed}
+              onChange={(e) => setAnimationSpeed(2100 - Number(e.target.value))}
+            />
+          </div>
+
+          <div className="flex justify-center space-x-2">
+            <button
+              className="px-3 py-2 rounded-md bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+              onClick={() => setCurrentStepIndex(currentStepIndex - 1)}
+              disabled={currentStepIndex === 0 || stepCount === 0}
+            >
+              ◀ Prev
+            </button>
+            <button
+              className="px-4 py-2 rounded-md bg-blue-500 text-white disabled:opacity-50"
+              onClick={() => setIsPlaying(!isPlaying)}
+              disabled={stepCount === 0}
+            >
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <button
+              className="px-3 py-2 rounded-md bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+              onClick={() => setCurrentStepIndex(currentStepIndex + 1)}
+              disabled={currentStepIndex >= stepCount - 1}
+            >
+              Next ▶
+            </button>
+          </div>
+
+          {outputStep && (
+            <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm">
+              <div className="font-medium mb-1">{direction === 'forward' ? 'Output State' : 'Recovered Input State'}</div>
+              {outputStep.state.map((word, index) => (
+                <div key={index} className="font-mono text-xs">x{index} = {wordToHex(word)}</div>
+              ))}
+              <button
+                className="mt-2 px-2 py-1 text-xs rounded-md bg-white/70 dark:bg-black/20 border border-green-300 dark:border-green-800"
+                onClick={handleReverse}
+              >
+                {direction === 'forward' ? 'Compute backward from this output' : 'Permute this state forward again'}
+              </button>
+            </div>
+          )}
+        </motion.div>
+
+        <motion.div
+          className="border rounded-md p-4 bg-white/5 border-gray-300 dark:border-gray-700 md:col-span-2"
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <h2 className="text-xl font-bold mb-4">
+            {direction === 'backward' ? 'Inverse Permutation Steps' : showShares ? 'Masked Permutation Steps' : 'Permutation Steps'}
+          </h2>
+
+          {currentStep ? (
+            <div className="space-y-4">
+              <div className="text-sm flex justify-between">
+                <span className="font-bold">Step {currentStepIndex + 1} of {stepCount}</span>
+                {previousStep && (
+                  <span className="text-orange-500">
+                    {stateHammingDistance(currentStep.state, previousStep.state)} of 320 bits changed
+                  </span>
+                )}
+              </div>
+
+              <input
+                type="range"
+                aria-label="Jump to step"
+                min="0"
+                max={stepCount - 1}
+                className="w-full"
+                value={currentStepIndex}
+                onChange={(e) => setCurrentStepIndex(Number(e.target.value))}
+              />
+
+              <div className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 text-sm">
+                <span className="font-bold">{currentStep.step}</span>
+                {currentStep.roundNumber !== undefined && (direction === 'forward'
+                  ? ` — Round ${currentStep.roundNumber + 1} of ${rounds}`
+                  : ` — Undoing round ${currentStep.roundNumber + 1} of ${rounds}`)}
+                {currentStep.substep && ` — ${currentStep.substep}`}
+                {currentStep.roundConstant !== undefined && (
+                  <span className="font-mono"> (x2 ⊕= 0x{currentStep.roundConstant.toString(16).padStart(2, '0')})</span>
+                )}
+              </div>
+
+              {currentStep.substep === "Inverse linear diffusion layer" && (
+                <div className="p-2 rounded-md bg-blue-50 dark:bg-blue-900/20 text-xs">
+                  Σi is invertible, but its inverse is much denser: each word becomes the XOR of{' '}
+                  {INVERSE_LINEAR_ROTATIONS.map(rotations => rotations.length).join(', ')} rotated copies of itself
+                  (x0 to x4) instead of three.
+                </div>
+              )}
+
+              {currentStep.substep === "Inverse substitution layer" && (
+                <div className="p-2 rounded-md bg-purple-50 dark:bg-purple-900/20 text-xs">
+                  Every 5-bit column is mapped through the inverse S-box, which exists because the S-box is a permutation
+                  of the 32 column values.
+                </div>
+              )}
+
+              {currentStep.shares && (
+                <div className="p-2 rounded-md bg-green-50 dark:bg-green-900/20 text-xs space-y-1">
+                  <p>
+                    The device only ever holds the {currentStep.shares.length} shares; the recombined words are computed here
+                    for display. Each share on its own is uniformly random, whatever the state, so a probe or power trace
+                    of any single share learns nothing. Try the zero state: its shares still look like noise.
+                  </p>
+                  <p className="font-mono">
+                    Fresh random words: {currentStep.freshRandomWords ?? 0} in this step, {randomWordsSoFar} so far
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {currentStep.state.map((word, index) => (
+                  <div key={index} className="p-3 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">x{index}{currentStep.shares && ' (recombined)'}</span>
+                      <span className="font-mono">{wordToHex(word)}</span>
+                    </div>
+                    {renderWordBits(word, previousStep?.state[index])}
+                    {currentStep.shares?.map((share, shareIndex) => (
+                      <div key={shareIndex} className="mt-2 pl-3 border-l-2 border-green-300 dark:border-green-800">
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>Share {shareIndex}</span>
+                          <span className="font-mono">{wordToHex(share[index])}</span>
+                        </div>
+                        {renderWordBits(share[index], previousStep?.shares?.[shareIndex][index])}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Outlined bits changed in this step. Start from the single-bit state to see how one set bit spreads through
+                the whole state within a few rounds.
+              </p>
+
+              {direction === 'backward' && (
+                <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-xs space-y-1">
+                  <div className="font-medium">Why invertibility is not a weakness</div>
+                  <p>
+                    Every step of the permutation can be undone, so anyone who knows all 320 bits of a state can run it
+                    backward. Ascon does not rely on the permutation being one-way. In the sponge, an attacker only ever sees
+                    the rate words; the capacity words stay hidden, and the key is mixed into them. To invert a state they
+                    would first have to guess all of the capacity bits, which is as hard as guessing the key.
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-48 bg-gray-50 dark:bg-gray-800/50 rounded-lg text-gray-500 text-center p-4">
+              {inputError || 'Enter a state to permute'}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ShareCount, wordToHex } from '../lib/ascon';
+import { LeakageModel } from '../lib/leakage';
+import {
+  CPA_COLUMNS,
+  CPA_KEY_GUESSES,
+  CPA_MAX_TRACES,
+  CPA_SAMPLE_LABELS,
+  CPA_TARGET_SAMPLE,
+  CpaOptions,
+  CpaResult,
+  CpaWorkerRequest,
+  CpaWorkerResponse
+} from '../lib/cpa';
+
+const MODEL_LABELS: Record<LeakageModel, string> = {
+  hammingWeight: 'Hamming weight',
+  hammingDistance: 'Hamming distance'
+};
+
+// Line colors of the four key guesses in the correlation plot
+const GUESS_COLORS = ['#3b82f6', '#f97316', '#a855f7', '#14b8a6'];
+
+const KEY_BYTES = 16; // Ascon-AEAD128 key
+
+// Helper function to name a guess of the two key bits of a column
+const formatGuess = (guess: number) => `x1=${guess >> 1}, x2=${guess & 1}`;
+
+export default function PowerAnalysis() {
+  const [key, setKey] = useState('000102030405060708090a0b0c0d0e0f');
+  const [model, setModel] = useState<LeakageModel>('hammingWeight');
+  const [noise, setNoise] = useState(2); // Standard deviation in bits
+  const [traceCount, setTraceCount] = useState(1000);
+  const [compareMasked, setCompareMasked] = useState(true);
+  const [shareCount, setShareCount] = useState<ShareCount>(2);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [results, setResults] = useState<CpaResult[] | null>(null);
+  const [error, setError] = useState('');
+  const [selectedColumn, setSelectedColumn] = useState(0);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  const keyError = !/^[0-9a-fA-F]*$/.test(key)
+    ? 'Key may only contain hex digits 0-9 and a-f'
+    : key.length !== 2 * KEY_BYTES ? `Key must be exactly ${KEY_BYTES} bytes (${2 * KEY_BYTES} hex digits), got ${key.length} digits` : '';
+
+  // Handle a message from the CPA worker, ignoring answers to older runs
+  const handleWorkerMessage = (event: MessageEvent<CpaWorkerResponse>) => {
+    const message = event.data;
+    if (message.requestId !== requestIdRef.current) return;
+
+    if (message.type === 'progress') {
+      setProgress(message.fraction);
+    } else if (message.type === 'result') {
+      setResults(message.results);
+      setProgress(null);
+    } else {
+      setError(message.message);
+      setProgress(null);
+    }
+  };
+
+  // Keep the message handler current, so a worker started by the first render uses the latest one
+  const workerMessageHandlerRef = useRef(handleWorkerMessage);
+  workerMessageHandlerRef.current = handleWorkerMessage;
+
+  // Helper function to start a fresh CPA worker
+  const startWorker = () => {
+    const worker = new Worker(new URL('../lib/cpa.worker.ts', import.meta.url));
+    worker.onmessage = event => workerMessageHandlerRef.current(event);
+    workerRef.current = worker;
+  };
+
+  // Start the worker, and stop it when the page goes away
+  useEffect(() => {
+    startWorker();
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Simulate the traces and attack them, replacing a run that is still going
+  const handleRun = () => {
+    if (keyError) return;
+    if (progress !== null) {
+      workerRef.current?.terminate();
+      startWorker();
+    }
+
+    const options: CpaOptions = {
+      key: Uint8Array.from(key.match(/../g) ?? [], byte => parseInt(byte, 16)),
+      traceCount,
+      model,
+      noise
+    };
+    const runs = compareMasked ? [options, { ...options, shareCount }] : [options];
+    requestIdRef.current++;
+    setError('');
+    setProgress(0);
+    const request: CpaWorkerRequest = { type: 'run', requestId: requestIdRef.current, runs };
+    workerRef.current?.postMessage(request);
+  };
+
+  const handleRandomKey = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+    setKey(Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(''));
+  };
+
+  // Render the correlation of every guess of the selected column with every sample
+  const renderCorrelationPlot = (result: CpaResult) => {
+    const { correlations, bestGuess, correctGuess } = result.columns[selectedColumn];
+    const width = 600;
+    const height = 160;
+    const maxMagnitude = Math.max(0.05, ...correlations.flat().map(Math.abs));
+    const toX = (sample: number) => 20 + (sample / (CPA_SAMPLE_LABELS.length - 1)) * (width - 40);
+    const toY = (value: number) => height / 2 - (value / maxMagnitude) * (height / 2 - 8);
+
+    return (
+      <div className="space-y-2">
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40 bg-white/70 dark:bg-black/20 rounded">
+          <line x1={0} x2={width} y1={toY(0)} y2={toY(0)} stroke="currentColor" strokeOpacity={0.3} />
+          <line x1={toX(CPA_TARGET_SAMPLE)} x2={toX(CPA_TARGET_SAMPLE)} y1={0} y2={height} stroke="#ef4444" strokeOpacity={0.5} strokeDasharray="4 4" />
+          {correlations.map((samples, guess) => (
+            <polyline
+              key={guess}
+              fill="none"
+              stroke={GUESS_COLORS[guess]}
+              strokeWidth={guess === correctGuess ? 3 : 1.5}
+              points={samples.map((value, sample) => `${toX(sample)},${toY(value)}`).join(' ')}
+            />
+          ))}
+        </svg>
+        <div className="flex justify-between text-[10px] text-gray-500">
+          {CPA_SAMPLE_LABELS.map((label, sample) => (
+            <span key={sample} className={`w-0 flex-1 text-center ${sample === CPA_TARGET_SAMPLE ? 'text-red-500' : ''}`}>{label}</span>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1 text-xs font-mono">
+          {Array.from({ length: CPA_KEY_GUESSES }, (_, guess) => (
+            <div key={guess} className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: GUESS_COLORS[guess] }} />
+              <span>
+                {formatGuess(guess)}: ρ = {correlations[guess][CPA_TARGET_SAMPLE].toFixed(3)}
+                {guess === correctGuess && ' (correct)'}
+                {guess === bestGuess && ' ← best'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Render a few of the simulated power traces
+  const renderExampleTraces = (result: CpaResult) => {
+    const width = 600;
+    const height = 80;
+    const values = result.exampleTraces.flat();
+    const low = Math.min(...values);
+    const high = Math.max(...values);
+    const toX = (sample: number) => 20 + (sample / (CPA_SAMPLE_LABELS.length - 1)) * (width - 40);
+    const toY = (value: number) => height - 6 - ((value - low) / Math.max(high - low, 1)) * (height - 12);
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-20 bg-white/70 dark:bg-black/20 rounded">
+        {result.exampleTraces.map((trace, i) => (
+          <polyline
+            key={i}
+            fill="none"
+            stroke="#6b7280"
+            strokeOpacity={0.7}
+            strokeWidth={1.5}
+            points={trace.map((value, sample) => `${toX(sample)},${toY(value)}`).join(' ')}
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  // Render one attack: the key bits it recovered, column by column, and the selected column's correlations
+  const renderResult = (result: CpaResult, title: string) => {
+    return (
+      <div className="border rounded-md p-4 bg-white/5 border-gray-300 dark:border-gray-700 space-y-4">
+        <div className="flex justify-between items-baseline">
+          <h2 className="text-xl font-bold">{title}</h2>
+          <span className="font-mono text-sm">{result.recoveredBits} / 128 key bits recovered</span>
+        </div>
+
+        <div className="space-y-1 text-xs font-mono">
+          {result.keyWords.map((word, i) => (
+            <div key={i}>
+              x{i + 1}: {wordToHex(word)} · recovered {wordToHex(result.recoveredKeyWords[i])}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="text-xs text-gray-500 mb-1">
+            S-box columns 63 to 0: green = both key bits right, yellow = one, red = none. Click a column to see its correlations.
+          </div>
+          <div className="grid gap-px" style={{ gridTemplateColumns: `repeat(${CPA_COLUMNS / 2}, minmax(0, 1fr))` }}>
+            {Array.from({ length: CPA_COLUMNS }, (_, i) => {
+              const column = CPA_COLUMNS - 1 - i;
+              const { bestGuess, correctGuess } = result.columns[column];
+              const wrongBits = ((bestGuess ^ correctGuess) >> 1) + ((bestGuess ^ correctGuess) & 1);
+              return (
+                <button
+                  key={column}
+                  className={`h-4 rounded-sm ${['bg-green-500', 'bg-yellow-400', 'bg-red-500'][wrongBits]} ${column === selectedColumn ? 'ring-2 ring-blue-500' : ''}`}
+                  title={`Column ${column}: guessed ${formatGuess(bestGuess)}, key has ${formatGuess(correctGuess)}`}
+                  onClick={() => setSelectedColumn(column)}
+                />
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Correlation per key guess, column {selectedColumn}</h3>
+          {renderCorrelationPlot(result)}
+        </div>
+
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Some of the simulated power traces</h3>
+          {renderExampleTraces(result)}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col space-y-8 w-full max-w-6xl mx-auto p-4">
+      <motion.h1
+        className="text-3xl font-bold text-center"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+      >
+        Ascon Power Analysis
+      </motion.h1>
+
+      <div className="text-center text-sm">
+        <Link href="/" className="text-blue-500 hover:underline">← Back to the visualizer</Link>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        A device encrypts under a fixed key and fresh random nonces while we measure its power. Each simulated trace has
+        one sample per step of the first two initialization rounds: the {MODEL_LABELS[model].toLowerCase()} of the
+        whole state plus Gaussian noise. Every column entering the first S-box holds one IV bit, two key bits and two
+        nonce bits, so for each column we try the four values of the key bits, predict that column&apos;s leakage from the
+        known nonces, and keep the guess that correlates best with the samples. The other 63 columns act as extra noise.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 rounded-md bg-gray-50 dark:bg-gray-800/50">
+        <div className="space-y-2 md:col-span-3">
+          <div className="flex justify-between items-center">
+            <label htmlFor="cpa-key" className="text-sm font-medium">Secret key (hex)</label>
+            <button className="text-xs text-blue-500 hover:underline" onClick={handleRandomKey}>Random key</button>
+          </div>
+          <input
+            id="cpa-key"
+            type="text"
+            className={`w-full p-2 border rounded-md bg-white/5 font-mono text-sm ${keyError ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'}`}
+            value={key}
+            onChange={(e) => setKey(e.target.value.trim())}
+            spellCheck={false}
+          />
+          {keyError && <p className="text-xs text-red-500">{keyError}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Leakage model</div>
+          <div className="flex text-sm rounded-md overflow-hidden border border-gray-300 dark:border-gray-700 w-fit">
+            {(Object.keys(MODEL_LABELS) as LeakageModel[]).map(option => (
+              <button
+                key={option}
+                className={`px-3 py-1 ${model === option ? 'bg-blue-500 text-white' : ''}`}
+                onClick={() => setModel(option)}
+              >
+                {MODEL_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="cpa-noise" className="block text-sm font-medium">Noise σ: {noise} bits</label>
+          <input
+            id="cpa-noise"
+            type="range"
+            min="0"
+            max="20"
+            step="0.5"
+            className="w-full"
+            value={noise}
+            onChange={(e) => setNoise(Number(e.target.value))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="cpa-traces" className="block text-sm font-medium">Traces: {traceCount}</label>
+          <input
+            id="cpa-traces"
+            type="range"
+            min="100"
+            max={CPA_MAX_TRACES}
+            step="100"
+            className="w-full"
+            value={traceCount}
+            onChange={(e) => setTraceCount(Number(e.target.value))}
+          />
+        </div>
+
+        <div className="space-y-2 md:col-span-2">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={compareMasked}
+              onChange={(e) => setCompareMasked(e.target.checked)}
+            />
+            Also attack a masked device
+          </label>
+          {compareMasked && (
+            <div className="flex gap-2">
+              {([2, 3] as const).map(option => (
+                <button
+                  key={option}
+                  className={`px-3 py-1 text-xs rounded-md ${shareCount === option ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+                  onClick={() => setShareCount(option)}
+                >
+                  {option} shares
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-end justify-end">
+          <button
+            className="px-4 py-2 rounded-md bg-blue-500 text-white disabled:opacity-50"
+            onClick={handleRun}
+            disabled={!!keyError}
+          >
+            {progress !== null ? 'Restart attack' : 'Run attack'}
+          </button>
+        </div>
+      </div>
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <div className="text-xs text-gray-500">Simulating encryptions and correlating… {Math.round(progress * 100)}%</div>
+          <div className="h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {results && (
+        <div className="space-y-6">
+          {renderResult(results[0], 'Unmasked device')}
+          {results[1] && renderResult(results[1], `Masked device (${results[1].shareCount} shares)`)}
+          <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-sm space-y-1">
+            <div className="font-medium">Reading the results</div>
+            <p>
+              Guessing blindly gets 64 of 128 bits right. The unmasked device gives away more bits the more traces you
+              take and the lower the noise; the x2 bits come last, because the wrong x2 guess predicts a leakage that
+              correlates strongly with the right one (a ghost peak). The masked device only ever leaks fresh random
+              shares, so no guess correlates with it beyond chance, however many traces you take: a first-order attack
+              like this one needs the shares to be combined, which masking never does.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { SBOX } from '../lib/ascon';
+import {
+  SBOX_SIZE,
+  differenceDistributionTable,
+  differencePairs,
+  linearApproximationTable,
+  linearApproximationInputs,
+  algebraicNormalForm,
+  algebraicDegree,
+  formatMonomial,
+  differentialBranchNumber,
+  linearBranchNumber,
+  formatColumnBits
+} from '../lib/sboxAnalysis';
+
+type AnalysisTable = 'ddt' | 'lat' | 'anf';
+
+const TABLE_LABELS: Record<AnalysisTable, string> = {
+  ddt: 'Difference Distribution',
+  lat: 'Linear Approximation',
+  anf: 'Algebraic Normal Form'
+};
+
+// Helper function to format a 5-bit value as two hex digits
+const formatHex = (value: number) => `0x${value.toString(16).padStart(2, '0')}`;
+
+export default function SboxAnalysis() {
+  const [table, setTable] = useState<AnalysisTable>('ddt');
+  const [selectedCell, setSelectedCell] = useState<[number, number] | null>(null); // [row, column]
+
+  const ddt = useMemo(() => differenceDistributionTable(), []);
+  const lat = useMemo(() => linearApproximationTable(), []);
+  const anf = useMemo(() => algebraicNormalForm(), []);
+  const branchNumbers = useMemo(() => ({ differential: differentialBranchNumber(), linear: linearBranchNumber() }), []);
+
+  // Largest entries outside the trivial first row, which bound the best differential and linear trails
+  const differentialUniformity = Math.max(...ddt.slice(1).flat());
+  const linearity = Math.max(...lat.slice(1).flat().map(Math.abs));
+
+  const handleTableChange = (newTable: AnalysisTable) => {
+    setTable(newTable);
+    setSelectedCell(null);
+  };
+
+  // Render a 32 × 32 table whose cells are shaded by the size of their value
+  const renderGrid = (values: number[][], maxMagnitude: number, rowLabel: string, columnLabel: string) => {
+    return (
+      <div className="overflow-x-auto">
+        <table className="text-[10px] font-mono border-collapse mx-auto">
+          <thead>
+            <tr>
+              <th className="p-0.5 text-gray-500 font-normal whitespace-nowrap">{rowLabel} \ {columnLabel}</th>
+              {Array.from({ length: SBOX_SIZE }, (_, column) => (
+                <th key={column} className="p-0.5 font-normal text-gray-500">{column.toString(16)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {values.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <th className="p-0.5 font-normal text-gray-500">{rowIndex.toString(16)}</th>
+                {row.map((value, columnIndex) => {
+                  const isSelected = selectedCell?.[0] === rowIndex && selectedCell?.[1] === columnIndex;
+                  const intensity = Math.abs(value) / maxMagnitude;
+                  const color = value < 0 ? '239, 68, 68' : '59, 130, 246';
+                  return (
+                    <td
+                      key={columnIndex}
+                      className={`w-5 h-5 text-center cursor-pointer border border-white/40 dark:border-black/40 ${isSelected ? 'ring-2 ring-orange-500' : ''}`}
+                      style={{ backgroundColor: value ? `rgba(${color}, ${0.15 + 0.75 * intensity})` : undefined }}
+                      onClick={() => setSelectedCell([rowIndex, columnIndex])}
+                      title={`${rowLabel} = ${formatHex(rowIndex)}, ${columnLabel} = ${formatHex(columnIndex)}: ${value}`}
+                    >
+                      {value || ''}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  // Render the input pairs behind the selected DDT cell
+  const renderDifferenceDetails = (inputDifference: number, outputDifference: number) => {
+    const pairs = differencePairs(inputDifference, outputDifference);
+    return (
+      <div className="space-y-2">
+        <div className="text-sm">
+          Δin = {formatHex(inputDifference)} ({formatColumnBits(inputDifference)}), Δout = {formatHex(outputDifference)} ({formatColumnBits(outputDifference)}):{' '}
+          {ddt[inputDifference][outputDifference]} of 32 inputs, probability {ddt[inputDifference][outputDifference]}/32
+        </div>
+        {pairs.length === 0 ? (
+          <p className="text-xs text-gray-500">No input pair has this difference pattern: the differential is impossible.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 font-mono text-xs">
+            {pairs.map(([x, other]) => (
+              <div key={x} className="p-1 bg-white/70 dark:bg-black/20 rounded">
+                S({formatColumnBits(x)}) ⊕ S({formatColumnBits(other)}) = {formatColumnBits(SBOX[x])} ⊕ {formatColumnBits(SBOX[other])} = {formatColumnBits(SBOX[x] ^ SBOX[other])}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render the inputs for which the selected LAT approximation holds
+  const renderApproximationDetails = (inputMask: number, outputMask: number) => {
+    const inputs = linearApproximationInputs(inputMask, outputMask);
+    const bias = lat[inputMask][outputMask];
+    return (
+      <div className="space-y-2">
+        <div className="text-sm">
+          a = {formatHex(inputMask)} ({formatColumnBits(inputMask)}), b = {formatHex(outputMask)} ({formatColumnBits(outputMask)}):
+          a·x = b·S(x) holds for {inputs.length} of 32 inputs, bias {bias}/32
+          {bias === 0 ? ' (no bias, useless to an attacker)' : ''}
+        </div>
+        <div className="flex flex-wrap gap-1 font-mono text-xs">
+          {inputs.map(x => (
+            <span key={x} className="p-1 bg-white/70 dark:bg-black/20 rounded" title={`S(x) = ${formatColumnBits(SBOX[x])}`}>
+              {formatColumnBits(x)}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col space-y-8 w-full max-w-6xl mx-auto p-4">
+      <motion.h1
+        className="text-3xl font-bold text-center"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+      >
+        Ascon S-box Analysis
+      </motion.h1>
+
+      <div className="text-center text-sm">
+        <Link href="/" className="text-blue-500 hover:underline">← Back to the visualizer</Link>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center text-sm">
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500">Differential uniformity</div>
+          <div className="font-mono">{differentialUniformity} (best differential {differentialUniformity}/32)</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500">Linearity</div>
+          <div className="font-mono">{linearity} (largest bias {linearity}/32)</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500">Differential branch number</div>
+          <div className="font-mono">{branchNumbers.differential}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500">Linear branch number</div>
+          <div className="font-mono">{branchNumbers.linear}</div>
+        </div>
+      </div>
+
+      <div className="flex justify-center space-x-4">
+        {(Object.keys(TABLE_LABELS) as AnalysisTable[]).map(option => (
+          <motion.button
+            key={option}
+            className={`px-4 py-2 rounded-md transition-colors ${table === option ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => handleTableChange(option)}
+          >
+            {TABLE_LABELS[option]}
+          </motion.button>
+        ))}
+      </div>
+
+      <div className="border rounded-md p-4 bg-white/5 border-gray-300 dark:border-gray-700 space-y-4">
+        {table === 'ddt' && (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Row Δin, column Δout: how many of the 32 inputs x give S(x) ⊕ S(x ⊕ Δin) = Δout. Click a cell to see the pairs.
+            </p>
+            {renderGrid(ddt, differentialUniformity, 'Δin', 'Δout')}
+          </>
+        )}
+
+        {table === 'lat' && (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Row input mask a, column output mask b: how often a·x = b·S(x) holds, minus 16. Blue approximations hold more
+              often than chance, red ones less often. Click a cell to see the inputs it holds for.
+            </p>
+            {renderGrid(lat, linearity, 'a', 'b')}
+          </>
+        )}
+
+        {table === 'anf' && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Each output bit as an XOR of products of input bits (x0 is the bit from state word x0). Every output has
+              degree 2, which keeps the S-box cheap to mask, and the branch numbers of 3 mean that a one-bit difference
+              or mask always touches at least two bits on the other side.
+            </p>
+            {anf.map((monomials, outputWord) => (
+              <div key={outputWord} className="p-2 rounded-md bg-gray-50 dark:bg-gray-800/50 font-mono text-sm">
+                y{outputWord} = {monomials.map(formatMonomial).join(' ⊕ ')}
+                <span className="text-xs text-gray-500"> (degree {algebraicDegree(monomials)})</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {selectedCell && table !== 'anf' && (
+          <div className="p-3 rounded-md bg-orange-50 dark:bg-orange-900/20">
+            {table === 'ddt'
+              ? renderDifferenceDetails(selectedCell[0], selectedCell[1])
+              : renderApproximationDetails(selectedCell[0], selectedCell[1])}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
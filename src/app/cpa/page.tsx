@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import PowerAnalysis from '../components/PowerAnalysis';
+
+export const metadata: Metadata = {
+  title: "Ascon Power Analysis",
+  description: "Simulated power traces of Ascon-AEAD128 and a correlation power analysis that recovers the key, with and without masking.",
+};
+
+export default function CpaPage() {
+  return (
+    <div className="min-h-screen p-4 py-8">
+      <PowerAnalysis />
+    </div>
+  );
+}
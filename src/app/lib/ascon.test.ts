@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bytesToHex,
+  createAsconDecryptStream,
+  createAsconEncryptStream,
+  cxofAsconForVisualization,
+  decryptAsconForVisualization,
+  encryptAsconForVisualization,
+  encryptAsconTrace,
+  hashAsconForVisualization,
+  hexToBytes,
+  inversePermuteAsconForVisualization,
+  macAsconForVisualization,
+  maskState,
+  maskedPermuteAsconForVisualization,
+  permuteAsconForVisualization,
+  seededRandomWords,
+  textToBytes,
+  unmaskState,
+  xofAsconForVisualization,
+  AsconState,
+  AsconVariantName,
+  ShareCount,
+  StateStep
+} from './ascon';
+
+// Bytes 0, 1, 2, ... starting at `start`, the inputs the published test vectors count through
+const sequence = (length: number, start = 0) => Uint8Array.from({ length }, (_, i) => (start + i) & 0xff);
+
+const KEY = sequence(16);
+const NONCE = sequence(16, 16);
+const MESSAGE = 'Ascon is a family of lightweight authenticated ciphers';
+
+// Helper function to read the last step of a trace
+const lastStep = (steps: StateStep[]) => steps[steps.length - 1];
+
+// Helper function to encrypt and return ciphertext || tag as hex
+function encrypt(plaintext: string, associatedData: string | Uint8Array = '', variant: AsconVariantName = 'Ascon-AEAD128', key = KEY, nonce = NONCE) {
+  return lastStep(encryptAsconForVisualization(plaintext, key, nonce, associatedData, variant)).ciphertext;
+}
+
+// Helper function to decrypt ciphertext || tag and return the final step
+function decrypt(ciphertext: string, associatedData: string | Uint8Array = '', variant: AsconVariantName = 'Ascon-AEAD128', key = KEY, nonce = NONCE) {
+  return lastStep(decryptAsconForVisualization(ciphertext, key, nonce, associatedData, variant));
+}
+
+describe('Ascon-AEAD128', () => {
+  it('matches the known answer for an empty message', () => {
+    expect(encrypt('')).toBe('4f9c278211bec9316bf68f46ee8b2ec6');
+  });
+
+  it('decrypts what it encrypts', () => {
+    const final = decrypt(encrypt(MESSAGE, 'header') ?? '', 'header');
+    expect(final.verification?.valid).toBe(true);
+    expect(final.plaintext).toBe(MESSAGE);
+  });
+
+  it('rejects a ciphertext with a flipped bit and releases no plaintext', () => {
+    const ciphertext = hexToBytes(encrypt(MESSAGE, 'header') ?? '');
+    ciphertext[3] ^= 1;
+    const final = decrypt(bytesToHex(ciphertext), 'header');
+    expect(final.verification?.valid).toBe(false);
+    expect(final.plaintext).toBeFalsy();
+  });
+
+  it('rejects a ciphertext decrypted with other associated data', () => {
+    expect(decrypt(encrypt(MESSAGE, 'header') ?? '', 'other header').verification?.valid).toBe(false);
+  });
+
+  it('authenticates the associated data without encrypting it', () => {
+    const first = encrypt(MESSAGE, 'header 1') ?? '';
+    const second = encrypt(MESSAGE, 'header 2') ?? '';
+    expect(first).toHaveLength(second.length);
+    expect(first.slice(-32)).not.toBe(second.slice(-32));
+  });
+});
+
+describe('Ascon-Hash256', () => {
+  it('matches the known answer for an empty message', () => {
+    expect(lastStep(hashAsconForVisualization('')).digest).toBe('0b3be5850f2f6b98caf29f8fdea89b64a1fa70aa249b8f839bd53baa304d92b2');
+  });
+});
+
+describe('Ascon-XOF128 and Ascon-CXOF128', () => {
+  it('match the known answers for an empty message and 32 output bytes', () => {
+    expect(lastStep(xofAsconForVisualization('', 32)).digest).toBe('473d5e6164f58b39dfd84aacdb8ae42ec2d91fed33388ee0d960d9b3993295c6');
+    expect(lastStep(cxofAsconForVisualization('', '', 32)).digest).toBe('4f50159ef70bb3dad8807e034eaebd44c4fa2cbbc8cf1f05511ab66cdcc52990');
+  });
+
+  it('squeeze a longer output that starts with the shorter one', () => {
+    const short = lastStep(xofAsconForVisualization('abc', 16)).digest ?? '';
+    const long = lastStep(xofAsconForVisualization('abc', 40)).digest ?? '';
+    expect(long).toHaveLength(80);
+    expect(long.startsWith(short)).toBe(true);
+  });
+
+  it('give unrelated outputs for different customization strings', () => {
+    expect(lastStep(cxofAsconForVisualization('abc', 'a', 32)).digest).not.toBe(lastStep(cxofAsconForVisualization('abc', 'b', 32)).digest);
+  });
+});
+
+describe('Ascon-Mac and Ascon-Prf', () => {
+  it('match the known answer of Ascon-Mac for an empty message', () => {
+    expect(lastStep(macAsconForVisualization('', KEY, 'Ascon-Mac', 16)).digest).toBe('eb1af688825d66bf2d53e135f9323315');
+  });
+
+  it('give Ascon-Prf outputs of any length', () => {
+    expect(lastStep(macAsconForVisualization('abc', KEY, 'Ascon-Prf', 100)).digest).toHaveLength(200);
+  });
+
+  it('refuse Ascon-PrfShort messages longer than 128 bits', () => {
+    expect(() => macAsconForVisualization('a'.repeat(17), KEY, 'Ascon-PrfShort', 16)).toThrow();
+  });
+});
+
+describe('CAESAR-era variants', () => {
+  // Their test vectors use bytes 0, 1, 2, ... for both the key and the nonce
+  it.each([
+    ['Ascon-128', 16, 'e355159f292911f794cb1432a0103a8a'],
+    ['Ascon-128a', 16, '7a834e6f09210957067b10fd831f0078'],
+    ['Ascon-80pq', 20, 'abb688efa0b9d56b33277a2c97d2146b']
+  ] as const)('%s matches the known answer for an empty message', (variant, keyBytes, expected) => {
+    expect(encrypt('', '', variant, sequence(keyBytes), sequence(16))).toBe(expected);
+  });
+
+  it.each(['Ascon-128', 'Ascon-128a', 'Ascon-80pq'] as const)('%s decrypts what it encrypts', variant => {
+    const key = sequence(variant === 'Ascon-80pq' ? 20 : 16);
+    expect(decrypt(encrypt(MESSAGE, 'header', variant, key) ?? '', 'header', variant, key).plaintext).toBe(MESSAGE);
+  });
+});
+
+describe('Streaming AEAD API', () => {
+  const plaintext = textToBytes(MESSAGE.repeat(2));
+  const associatedData = sequence(21, 200);
+
+  // Helper function to cut bytes into chunks of the given sizes, then the rest
+  const chunk = (bytes: Uint8Array, sizes: number[]) => {
+    const chunks: Uint8Array[] = [];
+    let start = 0;
+    for (const size of sizes) {
+      chunks.push(bytes.subarray(start, start + size));
+      start += size;
+    }
+    return [...chunks, bytes.subarray(start)];
+  };
+
+  it.each([[[]], [[1, 1, 1]], [[7, 0, 16, 3]], [[99]]])('gives the traced ciphertext for chunks %j', sizes => {
+    const stream = createAsconEncryptStream();
+    stream.init(KEY, NONCE);
+    chunk(associatedData, sizes).forEach(part => stream.updateAD(part));
+    const parts = chunk(plaintext, sizes).map(part => bytesToHex(stream.update(part)));
+    const { ciphertext, tag } = stream.final();
+    expect(parts.join('') + bytesToHex(ciphertext) + bytesToHex(tag)).toBe(encrypt(MESSAGE.repeat(2), associatedData));
+  });
+
+  // Helper function to reduce steps to what the streams record exactly like the traces
+  const namesAndStates = (steps: StateStep[]) => steps.map(({ step, state }) => ({ step, state }));
+
+  it('records the steps of the traced encryption and decryption', () => {
+    const stream = createAsconEncryptStream({ trace: true });
+    stream.init(KEY, NONCE);
+    stream.updateAD(associatedData);
+    const first = stream.update(plaintext);
+    const { ciphertext, tag } = stream.final();
+    expect(namesAndStates(stream.getSteps())).toEqual(namesAndStates(encryptAsconForVisualization(plaintext, KEY, NONCE, associatedData)));
+
+    const decryptStream = createAsconDecryptStream({ trace: true });
+    decryptStream.init(KEY, NONCE);
+    decryptStream.updateAD(associatedData);
+    decryptStream.update(first);
+    decryptStream.update(ciphertext);
+    decryptStream.final(tag);
+    const ciphertextHex = bytesToHex(first) + bytesToHex(ciphertext) + bytesToHex(tag);
+    expect(namesAndStates(decryptStream.getSteps())).toEqual(namesAndStates(decryptAsconForVisualization(ciphertextHex, KEY, NONCE, associatedData)));
+  });
+
+  it('decrypts in chunks and holds the plaintext back until the tag is checked', () => {
+    const ciphertext = hexToBytes(encrypt(MESSAGE.repeat(2), associatedData) ?? '');
+    const stream = createAsconDecryptStream();
+    stream.init(KEY, NONCE);
+    stream.updateAD(associatedData);
+    chunk(ciphertext.subarray(0, -16), [5, 30]).forEach(part => stream.update(part));
+    const { verification, plaintext: recovered } = stream.final(ciphertext.subarray(-16));
+    expect(verification.valid).toBe(true);
+    expect(recovered).toEqual(plaintext);
+  });
+
+  it('refuses associated data after the message has started', () => {
+    const stream = createAsconEncryptStream();
+    stream.init(KEY, NONCE);
+    stream.update(plaintext);
+    expect(() => stream.updateAD(associatedData)).toThrow();
+  });
+});
+
+describe('Lazy traces', () => {
+  it('recompute the same steps from their checkpoints in any order', () => {
+    const trace = encryptAsconTrace(MESSAGE.repeat(40), KEY, NONCE, 'header');
+    const forward = Array.from({ length: trace.length }, (_, i) => trace.getStep(i));
+    const backward = Array.from({ length: trace.length }, (_, i) => trace.getStep(trace.length - 1 - i)).reverse();
+    expect(backward).toEqual(forward);
+    expect(lastStep(forward).ciphertext).toBe(encrypt(MESSAGE.repeat(40), 'header'));
+  });
+
+  it('count the bytes processed instead of copying the running texts into every step', () => {
+    const message = MESSAGE.repeat(40);
+    const steps = encryptAsconForVisualization(message, KEY, NONCE, 'header');
+    const counts = steps.map(step => step.processedBytes ?? 0);
+    expect(counts).toEqual([...counts].sort((a, b) => a - b));
+    expect(counts[counts.length - 1]).toBe(message.length);
+    expect(steps.slice(0, -1).filter(step => step.plaintext !== undefined || step.ciphertext !== undefined)).toEqual([]);
+    expect(lastStep(steps).plaintext).toBe(message);
+  });
+});
+
+const STATE: AsconState = [0x0123456789abcdefn, 0xfedcba9876543210n, 0n, 0xffffffffffffffffn, 0x8000000000000001n];
+
+describe('Inverse permutation', () => {
+  it.each([1, 6, 8, 12])('undoes p^%i', rounds => {
+    const output = lastStep(permuteAsconForVisualization(STATE, rounds)).state;
+    expect(output).not.toEqual(STATE);
+    expect(lastStep(inversePermuteAsconForVisualization(output, rounds)).state).toEqual(STATE);
+  });
+
+  it('undoes rounds that start at another round constant', () => {
+    const output = lastStep(permuteAsconForVisualization(STATE, 20, 0)).state;
+    expect(lastStep(inversePermuteAsconForVisualization(output, 20, 0)).state).toEqual(STATE);
+  });
+});
+
+describe('Masked permutation', () => {
+  const shareCounts: ShareCount[] = [2, 3];
+
+  it.each(shareCounts)('splits a state into %i shares that recombine to it', shareCount => {
+    const shares = maskState(STATE, shareCount, seededRandomWords(1n));
+    expect(shares).toHaveLength(shareCount);
+    expect(unmaskState(shares)).toEqual(STATE);
+  });
+
+  it.each(shareCounts)('draws other shares of a state from another seed, with %i shares', shareCount => {
+    expect(maskState(STATE, shareCount, seededRandomWords(1n))).not.toEqual(maskState(STATE, shareCount, seededRandomWords(2n)));
+  });
+
+  it.each(shareCounts)('follows the unmasked permutation step by step with %i shares', shareCount => {
+    const masked = maskedPermuteAsconForVisualization(STATE, 12, shareCount, 0, seededRandomWords(42n));
+    const unmasked = permuteAsconForVisualization(STATE, 12, 0);
+    expect(masked).toHaveLength(unmasked.length);
+    masked.forEach((step, i) => {
+      expect(step.shares).toHaveLength(shareCount);
+      expect(unmaskState(step.shares ?? [])).toEqual(unmasked[i].state);
+    });
+  });
+});
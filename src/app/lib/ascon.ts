@@ -1,12 +1,101 @@
 // ASCON Encryption Algorithm Implementation for Visualization
-// Based on ASCON-128 variant
+// Based on NIST SP 800-232 (Ascon-AEAD128, Ascon-Hash256, Ascon-XOF128, Ascon-CXOF128),
+// with the CAESAR-era Ascon v1.2 variants available for comparison
 
 // Constants
-const ROUNDS_A = 12; // Rounds in initialization and finalization
-const ROUNDS_B = 6;  // Rounds in processing associated data and plaintext
+const STATE_BYTES = 40; // 320-bit state
+export const NONCE_BYTES = 16; // 128-bit nonce for every AEAD variant
+const MASK_64 = 0xffffffffffffffffn;
+
+// Byte order used to map bytes onto state words: SP 800-232 is little-endian,
+// the Ascon v1.2 variants are big-endian
+export type ByteOrder = 'little' | 'big';
+
+// Parameters of an Ascon AEAD variant
+export interface AsconVariant {
+  name: string;
+  description: string;
+  keyBytes: number;
+  rateBytes: number; // Bytes absorbed per block, starting at x0
+  roundsA: number; // Rounds in initialization and finalization
+  roundsB: number; // Rounds in processing associated data and plaintext
+  iv: bigint; // Fills the state bytes in front of the key and nonce
+  tagBytes: number;
+  byteOrder: ByteOrder;
+}
+
+export type AsconVariantName = 'Ascon-AEAD128' | 'Ascon-128' | 'Ascon-128a' | 'Ascon-80pq';
+
+// Registry of supported AEAD variants
+export const ASCON_VARIANTS: Record<AsconVariantName, AsconVariant> = {
+  'Ascon-AEAD128': {
+    name: 'Ascon-AEAD128',
+    description: 'NIST SP 800-232 standard',
+    keyBytes: 16,
+    rateBytes: 16,
+    roundsA: 12,
+    roundsB: 8,
+    iv: 0x00001000808c0001n,
+    tagBytes: 16,
+    byteOrder: 'little'
+  },
+  'Ascon-128': {
+    name: 'Ascon-128',
+    description: 'CAESAR primary choice (v1.2), 64-bit rate',
+    keyBytes: 16,
+    rateBytes: 8,
+    roundsA: 12,
+    roundsB: 6,
+    iv: 0x80400c0600000000n,
+    tagBytes: 16,
+    byteOrder: 'big'
+  },
+  'Ascon-128a': {
+    name: 'Ascon-128a',
+    description: 'CAESAR variant (v1.2), 128-bit rate',
+    keyBytes: 16,
+    rateBytes: 16,
+    roundsA: 12,
+    roundsB: 8,
+    iv: 0x80800c0800000000n,
+    tagBytes: 16,
+    byteOrder: 'big'
+  },
+  'Ascon-80pq': {
+    name: 'Ascon-80pq',
+    description: 'v1.2 with a 160-bit key against quantum key search',
+    keyBytes: 20,
+    rateBytes: 8,
+    roundsA: 12,
+    roundsB: 6,
+    iv: 0xa0400c06n,
+    tagBytes: 16,
+    byteOrder: 'big'
+  }
+};
+
+export const DEFAULT_VARIANT: AsconVariantName = 'Ascon-AEAD128';
+
+// Ascon-Hash256, Ascon-XOF128 and Ascon-CXOF128 constants
+const HASH_IV = 0x0000080100cc0002n; // IV for Ascon-Hash256
+const XOF_IV = 0x0000080000cc0003n; // IV for Ascon-XOF128
+const CXOF_IV = 0x0000080000cc0004n; // IV for Ascon-CXOF128
+const HASH_RATE_BYTES = 8; // 64-bit rate, absorbed into state word x0
+const HASH_ROUNDS = 12; // Rounds between every absorbed and squeezed block
+const HASH_OUTPUT_BYTES = 32; // 256-bit digest
+export const CXOF_MAX_CUSTOMIZATION_BYTES = 256; // Customization strings are at most 2048 bits
+
+// Ascon-Mac, Ascon-Prf and Ascon-PrfShort constants (Ascon v1.2 keyed constructions,
+// which use big-endian byte order)
+export const MAC_KEY_BYTES = 16; // 128-bit key
+const MAC_ROUNDS = 12; // Rounds in initialization, between blocks and in finalization
+const MAC_INPUT_RATE_BYTES = 32; // Message absorbed into x0..x3
+const MAC_OUTPUT_RATE_BYTES = 16; // Output squeezed from x0 and x1
+export const MAC_TAG_BYTES = 16; // Ascon-Mac tags are 128 bits
+export const PRF_SHORT_MAX_BYTES = 16; // Ascon-PrfShort takes and returns at most 128 bits
 
 // State size is 320 bits (5 64-bit words)
-type AsconState = [number, number, number, number, number];
+export type AsconState = [bigint, bigint, bigint, bigint, bigint];
 
 // Permutation constants for each round
 export const ROUND_CONSTANTS = [
@@ -14,20 +103,73 @@ export const ROUND_CONSTANTS = [
   0x78, 0x69, 0x5a, 0x4b
 ];
 
+export const MAX_PERMUTATION_ROUNDS = 64; // Most rounds a standalone permutation trace may run
+
+// The Ascon 5-bit S-box as a lookup table (input column -> output column)
+export const SBOX = [
+  0x04, 0x0b, 0x1f, 0x14, 0x1a, 0x15, 0x09, 0x02,
+  0x1b, 0x05, 0x08, 0x12, 0x1d, 0x03, 0x06, 0x1c,
+  0x1e, 0x13, 0x07, 0x0e, 0x00, 0x0d, 0x11, 0x18,
+  0x10, 0x0c, 0x01, 0x19, 0x16, 0x0a, 0x0f, 0x17
+];
+
+// The inverse S-box (output column -> input column)
+export const INVERSE_SBOX = SBOX.reduce<number[]>((inverse, output, input) => {
+  inverse[output] = input;
+  return inverse;
+}, []);
+
+// Right-rotation amounts (r1, r2) of the linear diffusion function Σi for each word
+export const LINEAR_ROTATIONS: [number, number][] = [
+  [19, 28],
+  [61, 39],
+  [1, 6],
+  [10, 17],
+  [7, 41]
+];
+
+// Role of each rate byte in an absorbed block: input data, 10* padding (the 0x01 or 0x80
+// byte and the zeros after it), or not touched yet because the block is still partial
+export type RateByteKind = 'message' | 'padding' | 'unused';
+
+// Outcome of the tag check at the end of decryption
+export interface TagVerification {
+  valid: boolean;
+  receivedTag: string; // Tag taken from the end of the ciphertext (hex)
+  computedTag: string; // Tag recomputed from the final state (hex)
+}
+
 // For visualization tracking
 export interface StateStep {
   state: AsconState;
   step: string;
   roundNumber?: number;
+  roundConstant?: number;
   substep?: string;
+  sboxInput?: number[]; // 5-bit column values before the S-box, indexed by bit position
+  sboxOutput?: number[]; // 5-bit column values after the S-box, indexed by bit position
+  diffusionInput?: AsconState; // Words before the linear diffusion layer
+  diffusionRotations?: [bigint, bigint][]; // Both rotated copies (x >>> r1, x >>> r2) of each word
+  associatedDataHex?: string; // Associated data block absorbed in this step (including padding)
+  messageBlockHex?: string; // Hash/XOF block absorbed in this step (including padding)
+  rateByteKinds?: RateByteKind[]; // Which rate bytes hold message and which hold padding, one entry per byte
+  digest?: string; // Hash/XOF output squeezed so far (hex)
+  tag?: string; // Authentication tag produced in this step (hex)
+  verification?: TagVerification; // Set on the final step of decryption
+  shares?: AsconState[]; // Shares of a masked state, whose XOR is `state`
+  freshRandomWords?: number; // Random 64-bit words drawn for masking in this step
   plaintextChar?: string;
   ciphertextChar?: string;
   plaintextHex?: string;
   ciphertextHex?: string;
-  ciphertext?: string;
-  plaintext?: string;
+  processedBytes?: number; // Message bytes encrypted, decrypted or absorbed so far
+  ciphertext?: string; // Whole ciphertext and tag (hex), on the final step of encryption
+  plaintext?: string; // Whole message, on the final step of encryption or of a verified decryption
 }
 
+// Fields repeated on every step of a phase (how much of the message has been processed)
+type StepContext = Omit<StateStep, 'state' | 'step'>;
+
 // Helper function to convert text to bytes
 export function textToBytes(text: string): Uint8Array {
   const encoder = new TextEncoder();
@@ -40,11 +182,16 @@ export function bytesToText(bytes: Uint8Array): string {
   return decoder.decode(bytes);
 }
 
+// Two hex digits for every byte value, so long inputs convert quickly
+const HEX_DIGITS = Array.from({ length: 256 }, (_, byte) => byte.toString(16).padStart(2, '0'));
+
 // Helper function to convert bytes to hex for display
 export function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map(byte => byte.toString(16).padStart(2, '0'))
-    .join('');
+  let hex = '';
+  for (const byte of bytes) {
+    hex += HEX_DIGITS[byte];
+  }
+  return hex;
 }
 
 // Helper function to convert hex to bytes
@@ -56,450 +203,1712 @@ export function hexToBytes(hex: string): Uint8Array {
   return bytes;
 }
 
-// Simplified ASCON encryption (for visualization)
-export function encryptAsconForVisualization(
-  plaintext: string, 
-  key: string = 'ASCON visualization key',
-  nonce: string = 'ASCON nonce'
-): StateStep[] {
-  // Convert inputs to bytes
-  const plaintextBytes = textToBytes(plaintext);
-  const keyBytes = textToBytes(key.slice(0, 16)); // Only use first 16 bytes for 128-bit key
-  const nonceBytes = textToBytes(nonce.slice(0, 16)); // 16 bytes for nonce
-  
-  // Initialize state steps for visualization
-  const stateSteps: StateStep[] = [];
-  
-  // Initial state (simplified)
-  const state: AsconState = [0, 0, 0, 0, 0];
-  
-  // To store generated ciphertext
-  const ciphertext: number[] = [];
-  
-  // Record initial state
-  stateSteps.push({
-    state: [...state],
-    step: "Initial state",
-    plaintext: plaintext,
-    plaintextHex: bytesToHex(plaintextBytes)
+// Helper function to check that a string is whole bytes of hex
+export function isValidHex(hex: string): boolean {
+  return /^([0-9a-fA-F]{2})*$/.test(hex);
+}
+
+// Helper function to format a 64-bit state word as hex
+export function wordToHex(word: bigint): string {
+  return '0x' + word.toString(16).padStart(16, '0');
+}
+
+// Truncates or zero-pads bytes to an exact length (used for text keys and nonces)
+function fitBytes(bytes: Uint8Array, length: number): Uint8Array {
+  const fitted = new Uint8Array(length);
+  fitted.set(bytes.subarray(0, length));
+  return fitted;
+}
+
+// How text entered as a key or nonce is turned into bytes of the exact length
+export type TextKeyDerivation = 'pad' | 'hash';
+
+// Turns text into exactly `length` bytes: its UTF-8 bytes zero-padded or truncated,
+// or the leading bytes of its Ascon-Hash256 digest
+export function deriveBytesFromText(text: string, length: number, derivation: TextKeyDerivation = 'pad'): Uint8Array {
+  if (derivation === 'pad') {
+    return fitBytes(textToBytes(text), length);
+  }
+  const trace = hashAsconTrace(text);
+  return hexToBytes(trace.getStep(trace.length - 1).digest || '').slice(0, length);
+}
+
+// Resolves a key or nonce: raw bytes must have the exact length, text is padded or truncated
+function toFixedBytes(value: string | Uint8Array, length: number, name: string): Uint8Array {
+  if (typeof value === 'string') {
+    return deriveBytesFromText(value, length);
+  }
+  if (value.length !== length) {
+    throw new Error(`${name} must be exactly ${length} bytes, got ${value.length}`);
+  }
+  return value;
+}
+
+// Bit offset of byte `position` within its 64-bit word
+function byteShift(position: number, byteOrder: ByteOrder): bigint {
+  const index = position % 8;
+  return BigInt(8 * (byteOrder === 'little' ? index : 7 - index));
+}
+
+// Loads 8 bytes as a 64-bit word, treating bytes past the end as zero
+function loadWord(bytes: Uint8Array, offset: number = 0, byteOrder: ByteOrder = 'little'): bigint {
+  let word = 0n;
+  for (let i = 0; i < 8; i++) {
+    const byte = offset + i < bytes.length ? bytes[offset + i] : 0;
+    word |= BigInt(byte) << byteShift(i, byteOrder);
+  }
+  return word;
+}
+
+// Stores a 64-bit word as 8 bytes
+function storeWord(word: bigint, byteOrder: ByteOrder = 'little'): number[] {
+  return Array.from({ length: 8 }, (_, i) => Number((word >> byteShift(i, byteOrder)) & 0xffn));
+}
+
+// Reads byte `position` (0-39) of the state
+function getStateByte(state: AsconState, position: number, byteOrder: ByteOrder = 'little'): number {
+  return Number((state[Math.floor(position / 8)] >> byteShift(position, byteOrder)) & 0xffn);
+}
+
+// Overwrites byte `position` (0-39) of the state
+function setStateByte(state: AsconState, position: number, value: number, byteOrder: ByteOrder = 'little') {
+  const index = Math.floor(position / 8);
+  const shift = byteShift(position, byteOrder);
+  state[index] = (state[index] & ~(0xffn << shift) & MASK_64) | (BigInt(value) << shift);
+}
+
+// XORs bytes into the state starting at byte `offset`
+function xorStateBytes(state: AsconState, offset: number, bytes: Uint8Array, byteOrder: ByteOrder = 'little') {
+  for (let i = 0; i < bytes.length; i++) {
+    setStateByte(state, offset + i, getStateByte(state, offset + i, byteOrder) ^ bytes[i], byteOrder);
+  }
+}
+
+// The padding byte holds a single 1 bit in the first bit position of the byte
+function paddingByte(byteOrder: ByteOrder): number {
+  return byteOrder === 'little' ? 0x01 : 0x80;
+}
+
+// Domain separation flips the last bit of the 320-bit state, which is in x4
+function domainSeparationBit(byteOrder: ByteOrder): bigint {
+  return byteOrder === 'little' ? 0x8000000000000000n : 1n;
+}
+
+// Padding appends a single 1 bit right after the last byte of the block
+function padRate(state: AsconState, position: number, byteOrder: ByteOrder = 'little') {
+  xorStateBytes(state, position, new Uint8Array([paddingByte(byteOrder)]), byteOrder);
+}
+
+// Marks the rate bytes of a block: `messageLength` message bytes, then padding once the block is padded
+function getRateByteKinds(messageLength: number, rateBytes: number, padded: boolean): RateByteKind[] {
+  return Array.from({ length: rateBytes }, (_, i) =>
+    i < messageLength ? 'message' : padded ? 'padding' : 'unused'
+  );
+}
+
+// XORs a block into the rate
+function xorRate(state: AsconState, block: Uint8Array, byteOrder: ByteOrder = 'little') {
+  xorStateBytes(state, 0, block, byteOrder);
+}
+
+// Rotates a 64-bit word to the right
+function rotr(word: bigint, amount: number): bigint {
+  const shift = BigInt(amount);
+  return ((word >> shift) | (word << (64n - shift))) & MASK_64;
+}
+
+// Reads the 5-bit column at bit position `column` (x0 is the most significant bit)
+export function getColumn(state: AsconState, column: number): number {
+  const shift = BigInt(column);
+  let value = 0;
+  for (let i = 0; i < 5; i++) {
+    value = (value << 1) | Number((state[i] >> shift) & 1n);
+  }
+  return value;
+}
+
+// Reads all 64 columns of the state
+function getColumns(state: AsconState): number[] {
+  return Array.from({ length: 64 }, (_, column) => getColumn(state, column));
+}
+
+// Writes all 64 columns of the state (x0 is the most significant bit of each column)
+function setColumns(state: AsconState, columns: number[]) {
+  for (let i = 0; i < 5; i++) {
+    let word = 0n;
+    for (let column = 63; column >= 0; column--) {
+      word = (word << 1n) | BigInt((columns[column] >> (4 - i)) & 1);
+    }
+    state[i] = word;
+  }
+}
+
+// Round constant at `index` in the constant sequence. Indices 0-11 are ROUND_CONSTANTS
+// (p12 starts at 0, p8 at 4, p6 at 6); the sequence repeats every 16 indices in both
+// directions, so index -4 gives 0x3c, the first constant SP 800-232 lists for 16 rounds
+export function getRoundConstant(index: number): number {
+  return (((0xf - index) & 0xf) << 4) | (index & 0xf);
+}
+
+// Addition of round constant: XOR the constant into x2
+function addRoundConstant(state: AsconState, constant: number) {
+  state[2] ^= BigInt(constant);
+}
+
+// Substitution layer: the 5-bit S-box applied to all 64 columns, bitsliced
+function substitutionLayer(state: AsconState) {
+  const [x0, x1, x2, x3, x4] = state;
+  const a0 = x0 ^ x4;
+  const a4 = x4 ^ x3;
+  const a2 = x2 ^ x1;
+  const t0 = (a0 ^ MASK_64) & x1;
+  const t1 = (x1 ^ MASK_64) & a2;
+  const t2 = (a2 ^ MASK_64) & x3;
+  const t3 = (x3 ^ MASK_64) & a4;
+  const t4 = (a4 ^ MASK_64) & a0;
+  const b0 = a0 ^ t1;
+  const b1 = x1 ^ t2;
+  const b2 = a2 ^ t3;
+  const b3 = x3 ^ t4;
+  const b4 = a4 ^ t0;
+  state[0] = b0 ^ b4;
+  state[1] = b1 ^ b0;
+  state[2] = b2 ^ MASK_64;
+  state[3] = b3 ^ b2;
+  state[4] = b4;
+}
+
+// Linear diffusion layer: Σi(x) = x ^ (x >>> r1) ^ (x >>> r2) for each word,
+// returning the two rotated copies of every word
+function linearDiffusionLayer(state: AsconState): [bigint, bigint][] {
+  return LINEAR_ROTATIONS.map(([r1, r2], i) => {
+    const rotations: [bigint, bigint] = [rotr(state[i], r1), rotr(state[i], r2)];
+    state[i] ^= rotations[0] ^ rotations[1];
+    return rotations;
   });
-  
-  // Initialization phase
-  // In real ASCON, we would initialize with key, nonce, and constants
-  state[0] = 0x80400c0600000000; // IV for ASCON-128
-  
-  // Add key to state (simplified)
-  state[1] ^= keyBytes.length > 0 ? keyBytes[0] : 0;
-  state[2] ^= keyBytes.length > 1 ? keyBytes[1] : 0;
-  
-  // Add nonce to state (simplified)
-  state[3] ^= nonceBytes.length > 0 ? nonceBytes[0] : 0;
-  state[4] ^= nonceBytes.length > 1 ? nonceBytes[1] : 0;
-  
-  stateSteps.push({
-    state: [...state],
-    step: "After initialization with IV, key, and nonce",
-    plaintext: plaintext,
-    plaintextHex: bytesToHex(plaintextBytes)
+}
+
+// Inverse substitution layer: the inverse S-box applied to all 64 columns
+function inverseSubstitutionLayer(state: AsconState) {
+  setColumns(state, getColumns(state).map(column => INVERSE_SBOX[column]));
+}
+
+// Right-rotation amounts whose XOR inverts Σi. Σi multiplies a word by 1 + x^r1 + x^r2 modulo
+// x^64 + 1, and any such polynomial p satisfies p^64 = 1, so Σi^-1 = Σi^63. Applying Σi 63 times
+// to the word 1 gives the bits of that inverse, where bit b stands for a rotation by 64 - b.
+export const INVERSE_LINEAR_ROTATIONS: number[][] = LINEAR_ROTATIONS.map(([r1, r2]) => {
+  let word = 1n;
+  for (let i = 0; i < 63; i++) {
+    word ^= rotr(word, r1) ^ rotr(word, r2);
+  }
+  const rotations: number[] = [];
+  for (let bit = 0; bit < 64; bit++) {
+    if ((word >> BigInt(bit)) & 1n) rotations.push((64 - bit) % 64);
+  }
+  return rotations.sort((a, b) => a - b);
+});
+
+// Inverse linear diffusion layer: each word becomes the XOR of its rotations in INVERSE_LINEAR_ROTATIONS
+function inverseLinearDiffusionLayer(state: AsconState) {
+  INVERSE_LINEAR_ROTATIONS.forEach((rotations, i) => {
+    const word = state[i];
+    state[i] = rotations.reduce((result, amount) => result ^ rotr(word, amount), 0n);
   });
-  
-  // Initial permutation
-  for (let round = 0; round < ROUNDS_A; round++) {
-    // Addition of round constants (simplified)
-    state[2] ^= ROUND_CONSTANTS[round % ROUND_CONSTANTS.length];
-    
+}
+
+// Applies the permutation p^rounds, recording each substep unless `stateSteps` is null.
+// By default it uses the last `rounds` constants, like p6, p8 and p12 in the spec.
+function permute(
+  state: AsconState,
+  rounds: number,
+  stateSteps: StateStep[] | null,
+  step: string,
+  context: StepContext,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds
+) {
+  for (let round = 0; round < rounds; round++) {
+    const roundConstant = getRoundConstant(firstConstant + round);
+
+    addRoundConstant(state, roundConstant);
+    if (!stateSteps) {
+      substitutionLayer(state);
+      linearDiffusionLayer(state);
+      continue;
+    }
     stateSteps.push({
+      ...context,
       state: [...state],
-      step: "Permutation",
+      step,
       roundNumber: round,
-      substep: "Addition of round constant",
-      plaintext: plaintext,
-      plaintextHex: bytesToHex(plaintextBytes)
+      roundConstant,
+      substep: "Addition of round constant"
     });
-    
-    // Substitution layer (simplified)
-    // In real ASCON, this is a 5-bit S-box applied to each 5-bit chunk
-    state[0] = ~state[0];
-    state[1] = ~state[1];
-    state[2] = ~state[2];
-    state[3] = ~state[3];
-    state[4] = ~state[4];
-    
+
+    const sboxInput = getColumns(state);
+    substitutionLayer(state);
     stateSteps.push({
+      ...context,
       state: [...state],
-      step: "Permutation",
+      step,
       roundNumber: round,
       substep: "Substitution layer",
-      plaintext: plaintext,
-      plaintextHex: bytesToHex(plaintextBytes)
+      sboxInput,
+      sboxOutput: getColumns(state)
     });
-    
-    // Linear diffusion layer (simplified)
-    // In real ASCON, each word undergoes specific rotations and XORs
-    state[0] = (state[0] << 1) | (state[0] >>> 63);
-    state[1] = (state[1] << 5) | (state[1] >>> 59);
-    state[2] = (state[2] << 10) | (state[2] >>> 54);
-    state[3] = (state[3] << 15) | (state[3] >>> 49);
-    state[4] = (state[4] << 20) | (state[4] >>> 44);
-    
+
+    const diffusionInput: AsconState = [...state];
+    const diffusionRotations = linearDiffusionLayer(state);
     stateSteps.push({
+      ...context,
       state: [...state],
-      step: "Permutation",
+      step,
       roundNumber: round,
       substep: "Linear diffusion layer",
-      plaintext: plaintext,
-      plaintextHex: bytesToHex(plaintextBytes)
+      diffusionInput,
+      diffusionRotations
     });
   }
-  
-  // Process plaintext blocks (simplified)
-  for (let i = 0; i < plaintextBytes.length; i++) {
-    const plaintextChar = String.fromCharCode(plaintextBytes[i]);
-    const plaintextHex = plaintextBytes[i].toString(16).padStart(2, '0');
-    
-    // XOR plaintext block with state
-    state[0] ^= plaintextBytes[i];
-    
-    // Calculate ciphertext byte
-    const ciphertextByte = state[0] & 0xFF;
-    ciphertext.push(ciphertextByte);
-    
-    // Convert current byte to character and hex for visualization
-    const ciphertextChar = String.fromCharCode(ciphertextByte);
-    const ciphertextHex = ciphertextByte.toString(16).padStart(2, '0');
-    
-    // Calculate current ciphertext string
-    const currentCiphertext = new Uint8Array(ciphertext);
-    
-    stateSteps.push({
-      state: [...state],
-      step: "Processing plaintext",
-      roundNumber: i,
-      substep: "XOR with plaintext block",
-      plaintextChar,
-      plaintextHex,
-      ciphertextChar,
-      ciphertextHex,
-      plaintext: plaintext.substring(0, i+1),
-      ciphertext: bytesToHex(currentCiphertext)
-    });
-    
-    // Permutation between blocks (simplified)
-    if (i < plaintextBytes.length - 1) {
-      for (let round = 0; round < ROUNDS_B; round++) {
-        // Simplified permutation (same as above but fewer rounds)
-        state[2] ^= ROUND_CONSTANTS[round % ROUND_CONSTANTS.length];
-        
-        stateSteps.push({
-          state: [...state],
-          step: "Permutation between blocks",
-          roundNumber: round,
-          substep: "Addition of round constant",
-          plaintext: plaintext.substring(0, i+1),
-          ciphertext: bytesToHex(new Uint8Array(ciphertext))
-        });
-        
-        state[0] = ~state[0];
-        state[1] = ~state[1];
-        state[2] = ~state[2];
-        state[3] = ~state[3];
-        state[4] = ~state[4];
-        
-        stateSteps.push({
-          state: [...state],
-          step: "Permutation between blocks",
-          roundNumber: round,
-          substep: "Substitution layer",
-          plaintext: plaintext.substring(0, i+1),
-          ciphertext: bytesToHex(new Uint8Array(ciphertext))
-        });
-        
-        state[0] = (state[0] << 1) | (state[0] >>> 63);
-        state[1] = (state[1] << 5) | (state[1] >>> 59);
-        state[2] = (state[2] << 10) | (state[2] >>> 54);
-        state[3] = (state[3] << 15) | (state[3] >>> 49);
-        state[4] = (state[4] << 20) | (state[4] >>> 44);
-        
-        stateSteps.push({
-          state: [...state],
-          step: "Permutation between blocks",
-          roundNumber: round,
-          substep: "Linear diffusion layer",
-          plaintext: plaintext.substring(0, i+1),
-          ciphertext: bytesToHex(new Uint8Array(ciphertext))
-        });
-      }
+}
+
+// Undoes p^rounds with the same constants, recording each substep unless `stateSteps` is null.
+// Rounds run from last to first, each one undoing the linear layer, the S-box and the constant.
+function inversePermute(
+  state: AsconState,
+  rounds: number,
+  stateSteps: StateStep[] | null,
+  step: string,
+  context: StepContext,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds
+) {
+  for (let round = rounds - 1; round >= 0; round--) {
+    const roundConstant = getRoundConstant(firstConstant + round);
+
+    inverseLinearDiffusionLayer(state);
+    if (!stateSteps) {
+      inverseSubstitutionLayer(state);
+      addRoundConstant(state, roundConstant);
+      continue;
     }
-  }
-  
-  // Finalization phase
-  // XOR key with state (simplified)
-  state[3] ^= keyBytes.length > 0 ? keyBytes[0] : 0;
-  state[4] ^= keyBytes.length > 1 ? keyBytes[1] : 0;
-  
-  stateSteps.push({
-    state: [...state],
-    step: "Finalization - XOR with key",
-    plaintext: plaintext,
-    ciphertext: bytesToHex(new Uint8Array(ciphertext))
-  });
-  
-  // Final permutation
-  for (let round = 0; round < ROUNDS_A; round++) {
-    // Same permutation as in initialization
-    state[2] ^= ROUND_CONSTANTS[round % ROUND_CONSTANTS.length];
-    
     stateSteps.push({
+      ...context,
       state: [...state],
-      step: "Final permutation",
+      step,
       roundNumber: round,
-      substep: "Addition of round constant",
-      plaintext: plaintext,
-      ciphertext: bytesToHex(new Uint8Array(ciphertext))
+      substep: "Inverse linear diffusion layer"
     });
-    
-    state[0] = ~state[0];
-    state[1] = ~state[1];
-    state[2] = ~state[2];
-    state[3] = ~state[3];
-    state[4] = ~state[4];
-    
+
+    const sboxInput = getColumns(state);
+    inverseSubstitutionLayer(state);
     stateSteps.push({
+      ...context,
       state: [...state],
-      step: "Final permutation",
+      step,
       roundNumber: round,
-      substep: "Substitution layer",
-      plaintext: plaintext,
-      ciphertext: bytesToHex(new Uint8Array(ciphertext))
+      substep: "Inverse substitution layer",
+      sboxInput,
+      sboxOutput: getColumns(state)
     });
-    
-    state[0] = (state[0] << 1) | (state[0] >>> 63);
-    state[1] = (state[1] << 5) | (state[1] >>> 59);
-    state[2] = (state[2] << 10) | (state[2] >>> 54);
-    state[3] = (state[3] << 15) | (state[3] >>> 49);
-    state[4] = (state[4] << 20) | (state[4] >>> 44);
-    
+
+    addRoundConstant(state, roundConstant);
     stateSteps.push({
+      ...context,
       state: [...state],
-      step: "Final permutation",
+      step,
       roundNumber: round,
-      substep: "Linear diffusion layer",
-      plaintext: plaintext,
-      ciphertext: bytesToHex(new Uint8Array(ciphertext))
+      roundConstant,
+      substep: "Removal of round constant"
     });
   }
-  
-  // XOR key with state to get tag (simplified)
-  state[3] ^= keyBytes.length > 0 ? keyBytes[0] : 0;
-  state[4] ^= keyBytes.length > 1 ? keyBytes[1] : 0;
-  
-  // Create authentication tag from state
-  const tag = [state[3] & 0xFF, state[4] & 0xFF];
-  
-  // Add tag to ciphertext (simplified)
-  ciphertext.push(...tag);
-  
-  stateSteps.push({
+}
+
+// A masked state: shares whose XOR is the real state. Every share on its own is uniformly
+// random, so observing any single one reveals nothing about the state.
+export type MaskedState = AsconState[];
+
+// Number of shares a masked state is split into
+export type ShareCount = 2 | 3;
+
+// Source of fresh random 64-bit words for masking
+export type RandomWordSource = () => bigint;
+
+// Draws a uniformly random 64-bit word from the platform's cryptographic generator
+export function randomWord(): bigint {
+  const [high, low] = crypto.getRandomValues(new Uint32Array(2));
+  return (BigInt(high) << 32n) | BigInt(low);
+}
+
+// Repeatable random words from a 64-bit seed (SplitMix64), so a masked run can be shown again
+// exactly. Fine for visualizing, but real masking needs an unpredictable source like randomWord.
+export function seededRandomWords(seed: bigint): RandomWordSource {
+  let state = seed & MASK_64;
+  return () => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+}
+
+// Splits a state into `shareCount` shares: all but the last are random, and the last one makes
+// their XOR come out as the state
+export function maskState(state: AsconState, shareCount: ShareCount, random: RandomWordSource = randomWord): MaskedState {
+  const shares = Array.from({ length: shareCount - 1 }, () => state.map(() => random() & MASK_64) as AsconState);
+  const lastShare = state.map((word, i) => shares.reduce((value, share) => value ^ share[i], word & MASK_64)) as AsconState;
+  return [...shares, lastShare];
+}
+
+// Recombines the shares of a masked state into the real state
+export function unmaskState(shares: MaskedState): AsconState {
+  return shares.reduce<AsconState>(
+    (state, share) => state.map((word, i) => word ^ share[i]) as AsconState,
+    [0n, 0n, 0n, 0n, 0n]
+  );
+}
+
+// Share of a linear term that output share `k` of the masked S-box uses: its own share with two
+// shares, the next one with three, so that no output share of the threshold implementation
+// depends on all three input shares (non-completeness)
+function linearShare(words: bigint[], k: number): bigint {
+  return words.length === 3 ? words[(k + 1) % 3] : words[k];
+}
+
+// Share `k` of x & y. Two shares use domain-oriented masking (DOM): the cross-domain product is
+// hidden by the fresh random word `r`, which both shares add and so cancels out. Three shares use
+// the threshold implementation, in which share k only sees input shares k + 1 and k + 2.
+function maskedAndShare(x: bigint[], y: bigint[], k: number, r: bigint): bigint {
+  if (x.length === 2) {
+    return (x[k] & y[k]) ^ ((x[k] & y[1 - k]) ^ r);
+  }
+  const j = (k + 1) % 3;
+  const l = (k + 2) % 3;
+  return (x[j] & y[j]) ^ (x[j] & y[l]) ^ (x[l] & y[j]);
+}
+
+// Masked substitution layer. The S-box is an affine map, Keccak's χ on the five words and another
+// affine map; the affine maps are applied share by share and only χ's AND gates need masking.
+// Returns the fresh random words it drew: one per AND gate with two shares, or with three shares
+// two per word to re-mask the output, since the threshold χ alone does not keep shares uniform.
+function maskedSubstitutionLayer(shares: MaskedState, random: RandomWordSource): number {
+  const a = shares.map(([x0, x1, x2, x3, x4]) => [x0 ^ x4, x1, x2 ^ x1, x3, x4 ^ x3]);
+  const word = (i: number) => a.map(share => share[i]);
+  let randomWords = 0;
+
+  // χ: b_i = a_i ^ (~a_{i+1} & a_{i+2}) = a_i ^ a_{i+2} ^ (a_{i+1} & a_{i+2})
+  const b = Array.from({ length: 5 }, (_, i) => {
+    const next = word((i + 1) % 5);
+    const nextButOne = word((i + 2) % 5);
+    const r = shares.length === 2 ? random() & MASK_64 : 0n;
+    if (shares.length === 2) randomWords++;
+    return shares.map((_, k) => linearShare(word(i), k) ^ linearShare(nextButOne, k) ^ maskedAndShare(next, nextButOne, k, r));
+  });
+
+  shares.forEach((share, k) => {
+    share[0] = b[0][k] ^ b[4][k];
+    share[1] = b[1][k] ^ b[0][k];
+    share[2] = k === 0 ? b[2][k] ^ MASK_64 : b[2][k];
+    share[3] = b[3][k] ^ b[2][k];
+    share[4] = b[4][k];
+  });
+
+  if (shares.length === 3) {
+    for (let i = 0; i < 5; i++) {
+      const r1 = random() & MASK_64;
+      const r2 = random() & MASK_64;
+      shares[0][i] ^= r1;
+      shares[1][i] ^= r2;
+      shares[2][i] ^= r1 ^ r2;
+      randomWords += 2;
+    }
+  }
+  return randomWords;
+}
+
+// Applies p^rounds to a masked state, recording each substep with its shares. The round constant
+// goes into the first share only, and the linear layer acts on every share separately.
+function maskedPermute(
+  shares: MaskedState,
+  rounds: number,
+  stateSteps: StateStep[],
+  step: string,
+  random: RandomWordSource,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds
+) {
+  const record = (substep: string, fields: Partial<StateStep>) => {
+    stateSteps.push({ ...fields, state: unmaskState(shares), shares: shares.map(share => [...share] as AsconState), step, substep });
+  };
+
+  for (let round = 0; round < rounds; round++) {
+    const roundConstant = getRoundConstant(firstConstant + round);
+
+    addRoundConstant(shares[0], roundConstant);
+    record("Addition of round constant", { roundNumber: round, roundConstant });
+
+    const freshRandomWords = maskedSubstitutionLayer(shares, random);
+    record("Substitution layer", { roundNumber: round, freshRandomWords });
+
+    shares.forEach(linearDiffusionLayer);
+    record("Linear diffusion layer", { roundNumber: round });
+  }
+}
+
+// A replayable piece of a trace (one absorbed block, one permutation call, ...). It continues
+// from the state the previous segment left and records exactly `stepCount` steps, or none
+// when `stateSteps` is null. Running it again from the same state gives the same result.
+interface TraceSegment {
+  stepCount: number;
+  run: (state: AsconState, stateSteps: StateStep[] | null) => void;
+}
+
+// Segment that changes the state, then records it as one step.
+// `describe` only runs when the step is recorded, so long running texts cost nothing otherwise.
+function stateSegment(
+  update: (state: AsconState) => void,
+  describe: () => Omit<StateStep, 'state'>
+): TraceSegment {
+  return {
+    stepCount: 1,
+    run: (state, stateSteps) => {
+      update(state);
+      stateSteps?.push({ ...describe(), state: [...state] });
+    }
+  };
+}
+
+// Segment that applies p^rounds, recording each substep
+function permutationSegment(
+  rounds: number,
+  step: string,
+  getContext: () => StepContext = () => ({}),
+  firstConstant: number = ROUND_CONSTANTS.length - rounds
+): TraceSegment {
+  return {
+    stepCount: 3 * rounds,
+    run: (state, stateSteps) => permute(state, rounds, stateSteps, step, stateSteps ? getContext() : {}, firstConstant)
+  };
+}
+
+// A trace whose steps are computed on demand instead of being stored
+export interface LazyTrace {
+  readonly length: number;
+  getStep(index: number): StateStep;
+}
+
+// Called while a lazy trace is being built, with the fraction done so far (0 to 1)
+export type TraceProgressCallback = (fraction: number) => void;
+
+const CHECKPOINT_INTERVAL = 32; // Segments between two stored states of a lazy trace
+const PROGRESS_INTERVAL = 1024; // Segments between two progress reports
+
+// Runs the segments once without recording, keeping the state every CHECKPOINT_INTERVAL
+// segments. A step is then recomputed from the nearest checkpoint before it, so jumping
+// anywhere in the trace costs at most CHECKPOINT_INTERVAL segments.
+function createLazyTrace(segments: TraceSegment[], onProgress?: TraceProgressCallback): LazyTrace {
+  const offsets: number[] = []; // Index of the first step of every segment
+  const checkpoints: AsconState[] = [];
+  const state: AsconState = [0n, 0n, 0n, 0n, 0n];
+  let length = 0;
+
+  segments.forEach((segment, i) => {
+    if (i % CHECKPOINT_INTERVAL === 0) {
+      checkpoints.push([...state]);
+    }
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(i / segments.length);
+    }
+    offsets.push(length);
+    length += segment.stepCount;
+    segment.run(state, null);
+  });
+  onProgress?.(1);
+
+  // The last recorded segment, so that stepping forward continues from where it ended
+  let cachedSegment = -1;
+  let cachedSteps: StateStep[] = [];
+  let cachedEndState: AsconState = [0n, 0n, 0n, 0n, 0n];
+
+  // Index of the segment holding step `index` (the last one starting at or before it)
+  const findSegment = (index: number) => {
+    let low = 0;
+    let high = segments.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= index) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+
+  const recordSegment = (segmentIndex: number) => {
+    let start = Math.floor(segmentIndex / CHECKPOINT_INTERVAL) * CHECKPOINT_INTERVAL;
+    let replayState: AsconState = [...checkpoints[start / CHECKPOINT_INTERVAL]];
+    if (cachedSegment >= start && cachedSegment < segmentIndex) {
+      start = cachedSegment + 1;
+      replayState = [...cachedEndState];
+    }
+
+    for (let i = start; i < segmentIndex; i++) {
+      segments[i].run(replayState, null);
+    }
+    cachedSteps = [];
+    segments[segmentIndex].run(replayState, cachedSteps);
+    cachedSegment = segmentIndex;
+    cachedEndState = replayState;
+  };
+
+  return {
+    length,
+    getStep(index: number) {
+      if (!Number.isInteger(index) || index < 0 || index >= length) {
+        throw new RangeError(`Step ${index} is outside the trace of ${length} steps`);
+      }
+      const segmentIndex = findSegment(index);
+      if (segmentIndex !== cachedSegment) {
+        recordSegment(segmentIndex);
+      }
+      return cachedSteps[index - offsets[segmentIndex]];
+    }
+  };
+}
+
+// Wraps steps that were all computed up front, or loaded from a file, as a trace
+export function storedTrace(steps: StateStep[]): LazyTrace {
+  return {
+    length: steps.length,
+    getStep(index: number) {
+      if (!Number.isInteger(index) || index < 0 || index >= steps.length) {
+        throw new RangeError(`Step ${index} is outside the trace of ${steps.length} steps`);
+      }
+      return steps[index];
+    }
+  };
+}
+
+// Computes every step of a lazy trace, for callers that want the whole array
+function materializeTrace(trace: LazyTrace): StateStep[] {
+  return Array.from({ length: trace.length }, (_, i) => trace.getStep(i));
+}
+
+// Absorbs one associated data block, padding it if it is the last one, followed by p^b
+function absorbAssociatedDataBlock(
+  state: AsconState,
+  block: Uint8Array,
+  blockIndex: number,
+  isLastBlock: boolean,
+  variant: AsconVariant,
+  stateSteps: StateStep[] | null,
+  suffix: string
+) {
+  const { rateBytes, byteOrder } = variant;
+  const paddedBlock = new Uint8Array(isLastBlock ? block.length + 1 : rateBytes);
+  paddedBlock.set(block);
+
+  xorRate(state, block, byteOrder);
+  if (isLastBlock) {
+    paddedBlock[block.length] = paddingByte(byteOrder);
+    padRate(state, block.length, byteOrder);
+  }
+
+  stateSteps?.push({
     state: [...state],
-    step: "Final state - Authentication tag generated",
-    plaintext: plaintext,
-    ciphertext: bytesToHex(new Uint8Array(ciphertext))
+    step: `Processing associated data${suffix}`,
+    roundNumber: blockIndex,
+    substep: isLastBlock ? "XOR with padded associated data block" : "XOR with associated data block",
+    associatedDataHex: bytesToHex(paddedBlock),
+    rateByteKinds: getRateByteKinds(block.length, rateBytes, isLastBlock)
   });
-  
-  return stateSteps;
+
+  permute(state, variant.roundsB, stateSteps, `Permutation after associated data${suffix}`, {});
 }
 
-// Simplified ASCON decryption (for visualization)
-export function decryptAsconForVisualization(
-  ciphertextHex: string,
-  key: string = 'ASCON visualization key',
-  nonce: string = 'ASCON nonce'
+// Segments absorbing associated data in padded rate-sized blocks with p^b between them.
+// Empty associated data is skipped entirely.
+function associatedDataSegments(
+  associatedData: Uint8Array,
+  variant: AsconVariant,
+  suffix: string
+): TraceSegment[] {
+  if (associatedData.length === 0) return [];
+
+  const { rateBytes } = variant;
+  const segments: TraceSegment[] = [];
+  for (let offset = 0; offset <= associatedData.length; offset += rateBytes) {
+    const block = associatedData.subarray(offset, offset + rateBytes);
+    segments.push({
+      stepCount: 1 + 3 * variant.roundsB,
+      run: (state, stateSteps) =>
+        absorbAssociatedDataBlock(state, block, offset / rateBytes, block.length < rateBytes, variant, stateSteps, suffix)
+    });
+  }
+  return segments;
+}
+
+// Duplexes a block through the rate. Encryption XORs the plaintext in, leaving the ciphertext
+// there; decryption recovers the plaintext and puts the ciphertext in. Returns the output block.
+function duplexBlock(state: AsconState, block: Uint8Array, byteOrder: ByteOrder, decrypt: boolean): Uint8Array {
+  const output = new Uint8Array(block.length);
+  for (let position = 0; position < block.length; position++) {
+    output[position] = getStateByte(state, position, byteOrder) ^ block[position];
+    setStateByte(state, position, decrypt ? block[position] : output[position], byteOrder);
+  }
+  return output;
+}
+
+// Converts an input (associated data or plaintext) given as text or raw bytes
+function inputToBytes(input: string | Uint8Array): Uint8Array {
+  return typeof input === 'string' ? textToBytes(input) : input;
+}
+
+// Loads IV || key || nonce into the state. The IV fills whatever the key and
+// nonce leave free (8 bytes for 128-bit keys, 4 bytes for Ascon-80pq).
+function loadInitialState(
+  state: AsconState,
+  variant: AsconVariant,
+  keyBytes: Uint8Array,
+  nonceBytes: Uint8Array
+) {
+  const ivLength = STATE_BYTES - variant.keyBytes - NONCE_BYTES;
+  const initialBytes = new Uint8Array(STATE_BYTES);
+  for (let i = 0; i < ivLength; i++) {
+    const shift = variant.byteOrder === 'little' ? i : ivLength - 1 - i;
+    initialBytes[i] = Number((variant.iv >> BigInt(8 * shift)) & 0xffn);
+  }
+  initialBytes.set(keyBytes, ivLength);
+  initialBytes.set(nonceBytes, ivLength + variant.keyBytes);
+
+  for (let i = 0; i < 5; i++) {
+    state[i] = loadWord(initialBytes, 8 * i, variant.byteOrder);
+  }
+}
+
+// Computes the tag: key XORed into the last 16 state bytes, which are then read out
+function computeTag(state: AsconState, variant: AsconVariant, keyBytes: Uint8Array): number[] {
+  xorStateBytes(state, STATE_BYTES - variant.tagBytes, keyBytes.subarray(keyBytes.length - variant.tagBytes), variant.byteOrder);
+  return Array.from({ length: variant.tagBytes }, (_, i) =>
+    getStateByte(state, STATE_BYTES - variant.tagBytes + i, variant.byteOrder)
+  );
+}
+
+// Compares tags in constant time: every byte is checked, with no early exit on a mismatch
+function constantTimeEqual(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+// Removes unverified plaintext from every step of a rejected decryption
+function withholdPlaintext(stateSteps: StateStep[]) {
+  for (const step of stateSteps) {
+    delete step.plaintext;
+    delete step.plaintextChar;
+    delete step.plaintextHex;
+  }
+}
+
+// Ascon AEAD encryption (Ascon-AEAD128 by default) as a lazy trace, for inputs too long to
+// keep every step in memory
+export function encryptAsconTrace(
+  plaintext: string | Uint8Array,
+  key: string | Uint8Array = 'ASCON visualization key',
+  nonce: string | Uint8Array = 'ASCON nonce',
+  associatedData: string | Uint8Array = '',
+  variantName: AsconVariantName = DEFAULT_VARIANT,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  const variant = ASCON_VARIANTS[variantName];
+  const { rateBytes, byteOrder } = variant;
+
+  // Convert inputs to bytes
+  const plaintextBytes = inputToBytes(plaintext);
+  const associatedDataBytes = inputToBytes(associatedData);
+  const keyBytes = toFixedBytes(key, variant.keyBytes, 'Key');
+  const nonceBytes = toFixedBytes(nonce, NONCE_BYTES, 'Nonce');
+
+  // To store generated ciphertext, followed by the tag
+  const ciphertext = new Uint8Array(plaintextBytes.length + variant.tagBytes);
+
+  // Steps only count the bytes encrypted so far: the running plaintext and ciphertext are
+  // prefixes of the input and output, so copying them into every step would cost O(n²)
+  const progressContext = (length: number) => () => ({ processedBytes: length });
+
+  const segments: TraceSegment[] = [
+    // Record initial state
+    stateSegment(() => {}, () => ({ step: "Initial state" })),
+
+    // Initialization phase: IV || key || nonce
+    stateSegment(
+      state => loadInitialState(state, variant, keyBytes, nonceBytes),
+      () => ({ step: "After initialization with IV, key, and nonce" })
+    ),
+
+    // Initial permutation
+    permutationSegment(variant.roundsA, "Permutation"),
+
+    // XOR key into the end of the capacity
+    stateSegment(
+      state => xorStateBytes(state, STATE_BYTES - variant.keyBytes, keyBytes, byteOrder),
+      () => ({ step: "Initialization - XOR with key" })
+    ),
+
+    // Associated data is authenticated but not encrypted
+    ...associatedDataSegments(associatedDataBytes, variant, ""),
+
+    // Domain separation between associated data and plaintext
+    stateSegment(
+      state => { state[4] ^= domainSeparationBit(byteOrder); },
+      () => ({ step: "Domain separation" })
+    )
+  ];
+
+  // Process plaintext in rate-sized blocks. The last block is partial (possibly empty) and gets padded.
+  for (let offset = 0; offset <= plaintextBytes.length; offset += rateBytes) {
+    const block = plaintextBytes.subarray(offset, offset + rateBytes);
+    const blockIndex = offset / rateBytes;
+    const isLastBlock = block.length < rateBytes;
+    const processed = offset + block.length;
+
+    if (block.length > 0) {
+      segments.push(stateSegment(
+        // XOR plaintext block into the rate, which then holds the ciphertext block
+        state => ciphertext.set(duplexBlock(state, block, byteOrder, false), offset),
+        () => {
+          const ciphertextBlock = ciphertext.subarray(offset, processed);
+          return {
+            step: "Processing plaintext",
+            roundNumber: blockIndex,
+            substep: isLastBlock ? "XOR with partial plaintext block" : "XOR with plaintext block",
+            rateByteKinds: getRateByteKinds(block.length, rateBytes, false),
+            plaintextChar: String.fromCharCode(...block),
+            plaintextHex: bytesToHex(block),
+            ciphertextChar: String.fromCharCode(...ciphertextBlock),
+            ciphertextHex: bytesToHex(ciphertextBlock),
+            ...progressContext(processed)()
+          };
+        }
+      ));
+    }
+
+    if (!isLastBlock) {
+      // Permutation after every full block
+      segments.push(permutationSegment(variant.roundsB, "Permutation between blocks", progressContext(processed)));
+      continue;
+    }
+
+    // Pad the last block: a single 1 bit right after the message, then zeros
+    segments.push(stateSegment(
+      state => padRate(state, block.length, byteOrder),
+      () => ({
+        step: "Padding last block",
+        roundNumber: blockIndex,
+        substep: `Padding byte 0x${paddingByte(byteOrder).toString(16).padStart(2, '0')} after ${block.length} message byte${block.length === 1 ? '' : 's'}`,
+        rateByteKinds: getRateByteKinds(block.length, rateBytes, true),
+        processedBytes: plaintextBytes.length
+      })
+    ));
+  }
+
+  const finalContext = progressContext(plaintextBytes.length);
+
+  segments.push(
+    // Finalization phase: XOR key into the capacity, right after the rate
+    stateSegment(
+      state => xorStateBytes(state, rateBytes, keyBytes, byteOrder),
+      () => ({ step: "Finalization - XOR with key", ...finalContext() })
+    ),
+
+    // Final permutation
+    permutationSegment(variant.roundsA, "Final permutation", finalContext),
+
+    // XOR key with state to get tag, and append it to the ciphertext
+    stateSegment(
+      state => ciphertext.set(computeTag(state, variant, keyBytes), plaintextBytes.length),
+      () => ({
+        step: "Final state - Authentication tag generated",
+        ...finalContext(),
+        plaintext: typeof plaintext === 'string' ? plaintext : bytesToText(plaintextBytes),
+        ciphertext: bytesToHex(ciphertext),
+        tag: bytesToHex(ciphertext.subarray(plaintextBytes.length))
+      })
+    )
+  );
+
+  return createLazyTrace(segments, onProgress);
+}
+
+// Ascon AEAD encryption (Ascon-AEAD128 by default), recording every state change for visualization
+export function encryptAsconForVisualization(
+  plaintext: string | Uint8Array,
+  key: string | Uint8Array = 'ASCON visualization key',
+  nonce: string | Uint8Array = 'ASCON nonce',
+  associatedData: string | Uint8Array = '',
+  variantName: AsconVariantName = DEFAULT_VARIANT
 ): StateStep[] {
+  return materializeTrace(encryptAsconTrace(plaintext, key, nonce, associatedData, variantName));
+}
+
+// Ascon AEAD decryption (Ascon-AEAD128 by default) as a lazy trace. The tag is checked while
+// the trace is built, so a rejected message never shows any plaintext.
+export function decryptAsconTrace(
+  ciphertextHex: string,
+  key: string | Uint8Array = 'ASCON visualization key',
+  nonce: string | Uint8Array = 'ASCON nonce',
+  associatedData: string | Uint8Array = '',
+  variantName: AsconVariantName = DEFAULT_VARIANT,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  const variant = ASCON_VARIANTS[variantName];
+  const { rateBytes, byteOrder } = variant;
+
   // Convert inputs to bytes
   const ciphertextBytes = hexToBytes(ciphertextHex);
-  const keyBytes = textToBytes(key.slice(0, 16)); // Only use first 16 bytes for 128-bit key
-  const nonceBytes = textToBytes(nonce.slice(0, 16)); // 16 bytes for nonce
-  
-  // For simplification, we'll assume the last 2 bytes are the tag
-  const ciphertextWithoutTag = ciphertextBytes.slice(0, ciphertextBytes.length - 2);
-  const tag = ciphertextBytes.slice(ciphertextBytes.length - 2);
-  
-  // Initialize state steps for visualization
-  const stateSteps: StateStep[] = [];
-  
-  // Initial state (simplified)
-  const state: AsconState = [0, 0, 0, 0, 0];
-  
+  const associatedDataBytes = inputToBytes(associatedData);
+  const keyBytes = toFixedBytes(key, variant.keyBytes, 'Key');
+  const nonceBytes = toFixedBytes(nonce, NONCE_BYTES, 'Nonce');
+
+  if (ciphertextBytes.length < variant.tagBytes) {
+    throw new Error(`Ciphertext must include the ${variant.tagBytes}-byte authentication tag`);
+  }
+
+  // The tag is appended to the ciphertext
+  const ciphertextWithoutTag = ciphertextBytes.slice(0, ciphertextBytes.length - variant.tagBytes);
+  const tag = ciphertextBytes.slice(ciphertextBytes.length - variant.tagBytes);
+
   // To store recovered plaintext
-  const plaintext: number[] = [];
-  
-  // Record initial state
-  stateSteps.push({
-    state: [...state],
-    step: "Initial state (decryption)",
-    ciphertext: ciphertextHex
-  });
-  
-  // Initialization phase (same as encryption)
-  state[0] = 0x80400c0600000000; // IV for ASCON-128
-  
-  // Add key to state
-  state[1] ^= keyBytes.length > 0 ? keyBytes[0] : 0;
-  state[2] ^= keyBytes.length > 1 ? keyBytes[1] : 0;
-  
-  // Add nonce to state
-  state[3] ^= nonceBytes.length > 0 ? nonceBytes[0] : 0;
-  state[4] ^= nonceBytes.length > 1 ? nonceBytes[1] : 0;
-  
-  stateSteps.push({
-    state: [...state],
-    step: "After initialization with IV, key, and nonce (decryption)",
-    ciphertext: ciphertextHex
-  });
-  
-  // Initial permutation (same as encryption)
-  for (let round = 0; round < ROUNDS_A; round++) {
-    state[2] ^= ROUND_CONSTANTS[round % ROUND_CONSTANTS.length];
-    
-    stateSteps.push({
-      state: [...state],
-      step: "Permutation (decryption)",
-      roundNumber: round,
-      substep: "Addition of round constant",
-      ciphertext: ciphertextHex
-    });
-    
-    state[0] = ~state[0];
-    state[1] = ~state[1];
-    state[2] = ~state[2];
-    state[3] = ~state[3];
-    state[4] = ~state[4];
-    
-    stateSteps.push({
-      state: [...state],
-      step: "Permutation (decryption)",
-      roundNumber: round,
-      substep: "Substitution layer",
-      ciphertext: ciphertextHex
-    });
-    
-    state[0] = (state[0] << 1) | (state[0] >>> 63);
-    state[1] = (state[1] << 5) | (state[1] >>> 59);
-    state[2] = (state[2] << 10) | (state[2] >>> 54);
-    state[3] = (state[3] << 15) | (state[3] >>> 49);
-    state[4] = (state[4] << 20) | (state[4] >>> 44);
-    
-    stateSteps.push({
-      state: [...state],
-      step: "Permutation (decryption)",
-      roundNumber: round,
-      substep: "Linear diffusion layer",
-      ciphertext: ciphertextHex
-    });
+  const plaintext = new Uint8Array(ciphertextWithoutTag.length);
+
+  // Filled in by the final segment, before any step is recorded
+  const verification: TagVerification = { valid: false, receivedTag: bytesToHex(tag), computedTag: '' };
+
+  // Bytes decrypted so far, as during encryption
+  const progressContext = (length: number) => () => ({ processedBytes: length });
+
+  const segments: TraceSegment[] = [
+    // Record initial state
+    stateSegment(() => {}, () => ({ step: "Initial state (decryption)" })),
+
+    // Initialization phase (same as encryption)
+    stateSegment(
+      state => loadInitialState(state, variant, keyBytes, nonceBytes),
+      () => ({ step: "After initialization with IV, key, and nonce (decryption)" })
+    ),
+
+    // Initial permutation (same as encryption)
+    permutationSegment(variant.roundsA, "Permutation (decryption)"),
+
+    stateSegment(
+      state => xorStateBytes(state, STATE_BYTES - variant.keyBytes, keyBytes, byteOrder),
+      () => ({ step: "Initialization - XOR with key (decryption)" })
+    ),
+
+    ...associatedDataSegments(associatedDataBytes, variant, " (decryption)"),
+
+    stateSegment(
+      state => { state[4] ^= domainSeparationBit(byteOrder); },
+      () => ({ step: "Domain separation (decryption)" })
+    )
+  ];
+
+  // Process ciphertext in rate-sized blocks. The last block is partial (possibly empty) and gets padded.
+  for (let offset = 0; offset <= ciphertextWithoutTag.length; offset += rateBytes) {
+    const block = ciphertextWithoutTag.subarray(offset, offset + rateBytes);
+    const blockIndex = offset / rateBytes;
+    const isLastBlock = block.length < rateBytes;
+    const processed = offset + block.length;
+
+    if (block.length > 0) {
+      segments.push(stateSegment(
+        // Recover the plaintext block, then replace the rate bytes with the ciphertext block
+        state => plaintext.set(duplexBlock(state, block, byteOrder, true), offset),
+        () => {
+          const plaintextBlock = plaintext.subarray(offset, processed);
+          return {
+            step: "Processing ciphertext (decryption)",
+            roundNumber: blockIndex,
+            substep: isLastBlock ? "XOR partial block with state to recover plaintext" : "XOR with state to recover plaintext",
+            rateByteKinds: getRateByteKinds(block.length, rateBytes, false),
+            ...(verification.valid ? {
+              plaintextChar: String.fromCharCode(...plaintextBlock),
+              plaintextHex: bytesToHex(plaintextBlock)
+            } : {}),
+            ciphertextChar: String.fromCharCode(...block),
+            ciphertextHex: bytesToHex(block),
+            ...progressContext(processed)()
+          };
+        }
+      ));
+    }
+
+    if (!isLastBlock) {
+      // Permutation after every full block
+      segments.push(permutationSegment(variant.roundsB, "Permutation between blocks (decryption)", progressContext(processed)));
+      continue;
+    }
+
+    // Pad the last block, exactly as during encryption
+    segments.push(stateSegment(
+      state => padRate(state, block.length, byteOrder),
+      () => ({
+        step: "Padding last block (decryption)",
+        roundNumber: blockIndex,
+        substep: `Padding byte 0x${paddingByte(byteOrder).toString(16).padStart(2, '0')} after ${block.length} message byte${block.length === 1 ? '' : 's'}`,
+        rateByteKinds: getRateByteKinds(block.length, rateBytes, true),
+        processedBytes: ciphertextWithoutTag.length
+      })
+    ));
   }
-  
-  // Process ciphertext blocks
-  for (let i = 0; i < ciphertextWithoutTag.length; i++) {
-    const ciphertextByte = ciphertextWithoutTag[i];
-    const ciphertextChar = String.fromCharCode(ciphertextByte);
-    const ciphertextHexChar = ciphertextByte.toString(16).padStart(2, '0');
-    
-    // Extract ciphertext block (will be the same as state top bits after XOR with plaintext in encryption)
-    // Recover plaintext byte
-    const plaintextByte = state[0] ^ ciphertextByte;
-    plaintext.push(plaintextByte);
-    
-    // Update state with ciphertext byte
-    state[0] = (state[0] & ~0xFF) | ciphertextByte;
-    
-    // Convert current byte to character and hex for visualization
-    const plaintextChar = String.fromCharCode(plaintextByte);
-    const plaintextHex = plaintextByte.toString(16).padStart(2, '0');
-    
-    // Calculate current plaintext string
-    const currentPlaintext = new Uint8Array(plaintext);
-    
-    stateSteps.push({
-      state: [...state],
-      step: "Processing ciphertext (decryption)",
-      roundNumber: i,
-      substep: "XOR with state to recover plaintext",
-      plaintextChar,
-      plaintextHex,
-      ciphertextChar,
-      ciphertextHex: ciphertextHexChar,
-      plaintext: bytesToHex(currentPlaintext),
-      ciphertext: ciphertextHex.substring(0, 2*(i+1))
-    });
-    
-    // Permutation between blocks (only if not the last block)
-    if (i < ciphertextWithoutTag.length - 1) {
-      for (let round = 0; round < ROUNDS_B; round++) {
-        state[2] ^= ROUND_CONSTANTS[round % ROUND_CONSTANTS.length];
-        
-        stateSteps.push({
-          state: [...state],
-          step: "Permutation between blocks (decryption)",
-          roundNumber: round,
-          substep: "Addition of round constant",
-          plaintext: bytesToHex(new Uint8Array(plaintext)),
-          ciphertext: ciphertextHex.substring(0, 2*(i+1))
-        });
-        
-        state[0] = ~state[0];
-        state[1] = ~state[1];
-        state[2] = ~state[2];
-        state[3] = ~state[3];
-        state[4] = ~state[4];
-        
-        stateSteps.push({
-          state: [...state],
-          step: "Permutation between blocks (decryption)",
-          roundNumber: round,
-          substep: "Substitution layer",
-          plaintext: bytesToHex(new Uint8Array(plaintext)),
-          ciphertext: ciphertextHex.substring(0, 2*(i+1))
-        });
-        
-        state[0] = (state[0] << 1) | (state[0] >>> 63);
-        state[1] = (state[1] << 5) | (state[1] >>> 59);
-        state[2] = (state[2] << 10) | (state[2] >>> 54);
-        state[3] = (state[3] << 15) | (state[3] >>> 49);
-        state[4] = (state[4] << 20) | (state[4] >>> 44);
-        
-        stateSteps.push({
-          state: [...state],
-          step: "Permutation between blocks (decryption)",
-          roundNumber: round,
-          substep: "Linear diffusion layer",
-          plaintext: bytesToHex(new Uint8Array(plaintext)),
-          ciphertext: ciphertextHex.substring(0, 2*(i+1))
-        });
+
+  const finalContext = progressContext(ciphertextWithoutTag.length);
+
+  segments.push(
+    // Finalization phase: XOR key into the capacity, right after the rate
+    stateSegment(
+      state => xorStateBytes(state, rateBytes, keyBytes, byteOrder),
+      () => ({ step: "Finalization - XOR with key (decryption)", ...finalContext() })
+    ),
+
+    permutationSegment(variant.roundsA, "Final permutation (decryption)", finalContext),
+
+    // Final step to verify the tag
+    stateSegment(
+      state => {
+        const computedTag = computeTag(state, variant, keyBytes);
+        verification.valid = constantTimeEqual(computedTag, tag);
+        verification.computedTag = bytesToHex(new Uint8Array(computedTag));
+      },
+      () => ({
+        step: `Final state - Authentication tag ${verification.valid ? 'valid' : 'invalid'} (decryption)`,
+        ...finalContext(),
+        ...(verification.valid ? { plaintext: bytesToText(plaintext) } : {}),
+        tag: verification.computedTag,
+        verification: { ...verification }
+      })
+    )
+  );
+
+  return createLazyTrace(segments, onProgress);
+}
+
+// Ascon AEAD decryption (Ascon-AEAD128 by default), recording every state change for visualization
+export function decryptAsconForVisualization(
+  ciphertextHex: string,
+  key: string | Uint8Array = 'ASCON visualization key',
+  nonce: string | Uint8Array = 'ASCON nonce',
+  associatedData: string | Uint8Array = '',
+  variantName: AsconVariantName = DEFAULT_VARIANT
+): StateStep[] {
+  return materializeTrace(decryptAsconTrace(ciphertextHex, key, nonce, associatedData, variantName));
+}
+
+// Options for the streaming AEAD API
+export interface AsconStreamOptions {
+  variant?: AsconVariantName; // Ascon-AEAD128 by default
+  trace?: boolean; // Record StateStep[] like the visualization functions (slower, uses more memory)
+}
+
+// Incremental Ascon AEAD encryption: init, any number of updateAD calls, any number of
+// update calls, then final. Ciphertext is returned as soon as a full rate block is available.
+export interface AsconEncryptStream {
+  init(key: Uint8Array, nonce: Uint8Array): void;
+  updateAD(chunk: Uint8Array): void;
+  update(chunk: Uint8Array): Uint8Array; // Ciphertext of the blocks completed by this chunk
+  final(): { ciphertext: Uint8Array; tag: Uint8Array }; // Ciphertext of the last partial block, and the tag
+  getSteps(): StateStep[]; // Empty unless tracing is enabled
+}
+
+// Incremental Ascon AEAD decryption with the same call order. The recovered plaintext is
+// held back until final has checked the tag, so a forged message releases nothing.
+export interface AsconDecryptStream {
+  init(key: Uint8Array, nonce: Uint8Array): void;
+  updateAD(chunk: Uint8Array): void;
+  update(chunk: Uint8Array): void;
+  final(tag: Uint8Array): { verification: TagVerification; plaintext?: Uint8Array };
+  getSteps(): StateStep[]; // Empty unless tracing is enabled
+}
+
+type StreamPhase = 'created' | 'associatedData' | 'data' | 'finished';
+
+// Shared duplex of the encrypt and decrypt streams
+function createAeadStream(decrypt: boolean, options: AsconStreamOptions) {
+  const variant = ASCON_VARIANTS[options.variant ?? DEFAULT_VARIANT];
+  const { rateBytes, byteOrder } = variant;
+  const suffix = decrypt ? " (decryption)" : "";
+  const stateSteps: StateStep[] = [];
+  const trace = options.trace ? stateSteps : null;
+
+  const state: AsconState = [0n, 0n, 0n, 0n, 0n];
+  let keyBytes: Uint8Array = new Uint8Array(0);
+  let phase: StreamPhase = 'created';
+  let buffer: number[] = []; // Bytes of the rate block being collected
+  let blockIndex = 0; // Blocks processed in the current phase
+
+  // Records a step when tracing is enabled
+  const record = (step: string, context: StepContext = {}) => {
+    trace?.push({ ...context, state: [...state], step });
+  };
+
+  const expectStarted = (call: string) => {
+    if (phase === 'created') throw new Error(`init must be called before ${call}`);
+    if (phase === 'finished') throw new Error(`${call} cannot be called after final`);
+  };
+
+  // Pads and absorbs the last associated data block (if there was any), then separates domains
+  const finishAssociatedData = () => {
+    if (phase !== 'associatedData') return;
+    if (blockIndex > 0 || buffer.length > 0) {
+      absorbAssociatedDataBlock(state, new Uint8Array(buffer), blockIndex, true, variant, trace, suffix);
+    }
+    state[4] ^= domainSeparationBit(byteOrder);
+    record(`Domain separation${suffix}`);
+    buffer = [];
+    blockIndex = 0;
+    phase = 'data';
+  };
+
+  // Duplexes one plaintext or ciphertext block. A full block is followed by p^b, the last one is padded.
+  const processBlock = (block: Uint8Array, isLastBlock: boolean): Uint8Array => {
+    const output = duplexBlock(state, block, byteOrder, decrypt);
+    if (block.length > 0) {
+      const [plaintextBlock, ciphertextBlock] = decrypt ? [output, block] : [block, output];
+      record(decrypt ? "Processing ciphertext (decryption)" : "Processing plaintext", {
+        roundNumber: blockIndex,
+        substep: decrypt ? "XOR with state to recover plaintext" : "XOR with plaintext block",
+        rateByteKinds: getRateByteKinds(block.length, rateBytes, false),
+        plaintextHex: bytesToHex(plaintextBlock),
+        ciphertextHex: bytesToHex(ciphertextBlock)
+      });
+    }
+
+    if (isLastBlock) {
+      padRate(state, block.length, byteOrder);
+      record(`Padding last block${suffix}`, {
+        roundNumber: blockIndex,
+        rateByteKinds: getRateByteKinds(block.length, rateBytes, true)
+      });
+    } else {
+      permute(state, variant.roundsB, trace, `Permutation between blocks${suffix}`, {});
+    }
+    blockIndex++;
+    return output;
+  };
+
+  return {
+    init(key: Uint8Array, nonce: Uint8Array) {
+      keyBytes = toFixedBytes(key, variant.keyBytes, 'Key');
+      const nonceBytes = toFixedBytes(nonce, NONCE_BYTES, 'Nonce');
+      stateSteps.length = 0;
+      buffer = [];
+      blockIndex = 0;
+
+      state.fill(0n);
+      record(`Initial state${suffix}`);
+      loadInitialState(state, variant, keyBytes, nonceBytes);
+      record(`After initialization with IV, key, and nonce${suffix}`);
+      permute(state, variant.roundsA, trace, `Permutation${suffix}`, {});
+      xorStateBytes(state, STATE_BYTES - variant.keyBytes, keyBytes, byteOrder);
+      record(`Initialization - XOR with key${suffix}`);
+      phase = 'associatedData';
+    },
+
+    updateAD(chunk: Uint8Array) {
+      expectStarted('updateAD');
+      if (phase !== 'associatedData') throw new Error('updateAD cannot be called after update');
+      for (const byte of chunk) {
+        buffer.push(byte);
+        if (buffer.length === rateBytes) {
+          absorbAssociatedDataBlock(state, new Uint8Array(buffer), blockIndex, false, variant, trace, suffix);
+          buffer = [];
+          blockIndex++;
+        }
       }
+    },
+
+    update(chunk: Uint8Array): Uint8Array {
+      expectStarted('update');
+      finishAssociatedData();
+      const output: number[] = [];
+      for (const byte of chunk) {
+        buffer.push(byte);
+        if (buffer.length === rateBytes) {
+          output.push(...processBlock(new Uint8Array(buffer), false));
+          buffer = [];
+        }
+      }
+      return new Uint8Array(output);
+    },
+
+    // Processes the last partial block and returns its output with the computed tag
+    final(): { output: Uint8Array; tag: Uint8Array } {
+      expectStarted('final');
+      finishAssociatedData();
+      const output = processBlock(new Uint8Array(buffer), true);
+      buffer = [];
+
+      xorStateBytes(state, rateBytes, keyBytes, byteOrder);
+      record(`Finalization - XOR with key${suffix}`);
+      permute(state, variant.roundsA, trace, `Final permutation${suffix}`, {});
+      const tag = new Uint8Array(computeTag(state, variant, keyBytes));
+      phase = 'finished';
+      return { output, tag };
+    },
+
+    // Records the final step, once the caller knows what it is
+    recordFinal(step: string, context: StepContext) {
+      record(step, context);
+    },
+
+    getSteps: () => stateSteps
+  };
+}
+
+// Creates an incremental Ascon AEAD encryptor working on Uint8Arrays
+export function createAsconEncryptStream(options: AsconStreamOptions = {}): AsconEncryptStream {
+  const stream = createAeadStream(false, options);
+  return {
+    init: stream.init,
+    updateAD: stream.updateAD,
+    update: stream.update,
+    final() {
+      const { output, tag } = stream.final();
+      stream.recordFinal("Final state - Authentication tag generated", { tag: bytesToHex(tag) });
+      return { ciphertext: output, tag };
+    },
+    getSteps: stream.getSteps
+  };
+}
+
+// Creates an incremental Ascon AEAD decryptor working on Uint8Arrays
+export function createAsconDecryptStream(options: AsconStreamOptions = {}): AsconDecryptStream {
+  const stream = createAeadStream(true, options);
+  let plaintextChunks: Uint8Array[] = [];
+  return {
+    init(key: Uint8Array, nonce: Uint8Array) {
+      stream.init(key, nonce);
+      plaintextChunks = [];
+    },
+    updateAD: stream.updateAD,
+    update(chunk: Uint8Array) {
+      plaintextChunks.push(stream.update(chunk));
+    },
+    final(tag: Uint8Array) {
+      const { output, tag: computedTag } = stream.final();
+      plaintextChunks.push(output);
+
+      const verification: TagVerification = {
+        valid: constantTimeEqual(computedTag, tag),
+        receivedTag: bytesToHex(tag),
+        computedTag: bytesToHex(computedTag)
+      };
+
+      stream.recordFinal(`Final state - Authentication tag ${verification.valid ? 'valid' : 'invalid'} (decryption)`, {
+        tag: verification.computedTag,
+        verification
+      });
+
+      // A forged or corrupted message releases no plaintext, not even in the trace
+      if (!verification.valid) {
+        withholdPlaintext(stream.getSteps());
+        plaintextChunks = [];
+        return { verification };
+      }
+
+      // Join the held-back chunks into the released plaintext
+      const plaintext = new Uint8Array(plaintextChunks.reduce((length, chunk) => length + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of plaintextChunks) {
+        plaintext.set(chunk, offset);
+        offset += chunk.length;
+      }
+      plaintextChunks = [];
+      return { verification, plaintext };
+    },
+    getSteps: stream.getSteps
+  };
+}
+
+// Checks the round count and first round-constant index of a standalone permutation
+function validatePermutationParameters(rounds: number, firstConstant: number) {
+  if (!Number.isInteger(rounds) || rounds < 0 || rounds > MAX_PERMUTATION_ROUNDS) {
+    throw new Error(`Round count must be a whole number from 0 to ${MAX_PERMUTATION_ROUNDS}`);
+  }
+  if (!Number.isInteger(firstConstant)) {
+    throw new Error('Round-constant index must be a whole number');
+  }
+}
+
+// The bare permutation on a chosen state as a lazy trace: `rounds` rounds starting at
+// round-constant index `firstConstant` (see getRoundConstant)
+export function permuteAsconTrace(
+  initialState: AsconState,
+  rounds: number,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  validatePermutationParameters(rounds, firstConstant);
+  const inputState: AsconState = [...initialState];
+  const step = `Permutation p^${rounds}`;
+
+  const segments: TraceSegment[] = [
+    stateSegment(
+      state => {
+        for (let i = 0; i < 5; i++) state[i] = inputState[i] & MASK_64;
+      },
+      () => ({ step: "Input state" })
+    ),
+    permutationSegment(rounds, step, () => ({}), firstConstant)
+  ];
+  return createLazyTrace(segments, onProgress);
+}
+
+// Same as permuteAsconTrace, with every step computed up front
+export function permuteAsconForVisualization(
+  initialState: AsconState,
+  rounds: number,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds
+): StateStep[] {
+  return materializeTrace(permuteAsconTrace(initialState, rounds, firstConstant));
+}
+
+// The inverse permutation as a lazy trace: computes backward from `outputState` through the
+// same `rounds` rounds permuteAsconTrace would run, ending at the state that was permuted
+export function inversePermuteAsconTrace(
+  outputState: AsconState,
+  rounds: number,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  validatePermutationParameters(rounds, firstConstant);
+  const startState: AsconState = [...outputState];
+  const step = `Inverse permutation (p^${rounds})^-1`;
+
+  const segments: TraceSegment[] = [
+    stateSegment(
+      state => {
+        for (let i = 0; i < 5; i++) state[i] = startState[i] & MASK_64;
+      },
+      () => ({ step: "Output state" })
+    ),
+    {
+      stepCount: 3 * rounds,
+      run: (state, stateSteps) => inversePermute(state, rounds, stateSteps, step, {}, firstConstant)
     }
+  ];
+  return createLazyTrace(segments, onProgress);
+}
+
+// Same as inversePermuteAsconTrace, with every step computed up front
+export function inversePermuteAsconForVisualization(
+  outputState: AsconState,
+  rounds: number,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds
+): StateStep[] {
+  return materializeTrace(inversePermuteAsconTrace(outputState, rounds, firstConstant));
+}
+
+// The permutation on a masked state: `initialState` is split into `shareCount` shares, which
+// go through the rounds without ever being recombined. Each step records the shares next to the
+// state they add up to. Fresh randomness makes a run impossible to replay from a checkpoint, so
+// all steps are stored; a standalone permutation is short enough for that.
+export function maskedPermuteAsconTrace(
+  initialState: AsconState,
+  rounds: number,
+  shareCount: ShareCount,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds,
+  random: RandomWordSource = randomWord
+): LazyTrace {
+  validatePermutationParameters(rounds, firstConstant);
+  const shares = maskState(initialState, shareCount, random);
+  const stateSteps: StateStep[] = [{
+    state: unmaskState(shares),
+    shares: shares.map(share => [...share] as AsconState),
+    step: `Input state split into ${shareCount} shares`,
+    freshRandomWords: 5 * (shareCount - 1)
+  }];
+  maskedPermute(shares, rounds, stateSteps, `Masked permutation p^${rounds}`, random, firstConstant);
+  return storedTrace(stateSteps);
+}
+
+// Same as maskedPermuteAsconTrace, returning the steps as an array
+export function maskedPermuteAsconForVisualization(
+  initialState: AsconState,
+  rounds: number,
+  shareCount: ShareCount,
+  firstConstant: number = ROUND_CONSTANTS.length - rounds,
+  random: RandomWordSource = randomWord
+): StateStep[] {
+  return materializeTrace(maskedPermuteAsconTrace(initialState, rounds, shareCount, firstConstant, random));
+}
+
+// Segments absorbing bytes into x0 in padded 64-bit blocks, with p^12 after each one
+function hashBlockSegments(
+  bytes: Uint8Array,
+  step: string,
+  permutationStep: string,
+  blockName: string,
+  getContext: (absorbedLength: number) => StepContext
+): TraceSegment[] {
+  const segments: TraceSegment[] = [];
+  for (let offset = 0; offset <= bytes.length; offset += HASH_RATE_BYTES) {
+    const block = bytes.subarray(offset, offset + HASH_RATE_BYTES);
+    const isLastBlock = block.length < HASH_RATE_BYTES;
+    const absorbedLength = offset + block.length;
+
+    segments.push(
+      stateSegment(
+        state => {
+          xorRate(state, block);
+          if (isLastBlock) {
+            padRate(state, block.length);
+          }
+        },
+        () => {
+          const paddedBlock = new Uint8Array(isLastBlock ? block.length + 1 : HASH_RATE_BYTES);
+          paddedBlock.set(block);
+          if (isLastBlock) {
+            paddedBlock[block.length] = 0x01;
+          }
+          return {
+            ...getContext(absorbedLength),
+            step,
+            roundNumber: offset / HASH_RATE_BYTES,
+            substep: isLastBlock ? `XOR with padded ${blockName} block` : `XOR with ${blockName} block`,
+            messageBlockHex: bytesToHex(paddedBlock),
+            rateByteKinds: getRateByteKinds(block.length, HASH_RATE_BYTES, isLastBlock)
+          };
+        }
+      ),
+      permutationSegment(HASH_ROUNDS, permutationStep, () => getContext(absorbedLength))
+    );
   }
-  
-  // Verify tag (simplified)
-  state[3] ^= keyBytes.length > 0 ? keyBytes[0] : 0;
-  state[4] ^= keyBytes.length > 1 ? keyBytes[1] : 0;
-  
-  stateSteps.push({
-    state: [...state],
-    step: "Finalization - XOR with key (decryption)",
-    plaintext: bytesToHex(new Uint8Array(plaintext)),
-    ciphertext: ciphertextHex
-  });
-  
-  // Final steps to verify the tag
-  const computedTag = [state[3] & 0xFF, state[4] & 0xFF];
-  const tagValid = computedTag[0] === tag[0] && computedTag[1] === tag[1];
-  
-  stateSteps.push({
-    state: [...state],
-    step: `Final state - Authentication tag ${tagValid ? 'valid' : 'invalid'} (decryption)`,
-    plaintext: bytesToText(new Uint8Array(plaintext)),
-    ciphertext: ciphertextHex
+  return segments;
+}
+
+// Shared sponge of Ascon-Hash256, Ascon-XOF128 and Ascon-CXOF128 as a lazy trace.
+// A customization string is only absorbed for CXOF.
+function hashSpongeTrace(
+  message: string,
+  iv: bigint,
+  outputLength: number,
+  label: string,
+  customization?: Uint8Array,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  const messageBytes = textToBytes(message);
+  const outputName = label === 'hash' ? 'digest' : 'output';
+  const outputTitle = label === 'hash' ? 'Digest' : 'Output';
+
+  // To store the squeezed output
+  const output = new Uint8Array(outputLength);
+
+  const segments: TraceSegment[] = [
+    stateSegment(() => {}, () => ({ step: `Initial state (${label})` })),
+
+    // Initialization phase: IV || 0^256
+    stateSegment(
+      state => { state[0] = iv; },
+      () => ({ step: `After initialization with ${label} IV` })
+    ),
+
+    permutationSegment(HASH_ROUNDS, `Permutation (${label})`)
+  ];
+
+  // CXOF absorbs the bit length of the customization string, then the string itself
+  if (customization) {
+    const customizationBits = BigInt(customization.length * 8);
+    segments.push(
+      stateSegment(
+        state => { state[0] ^= customizationBits; },
+        () => ({
+          step: `Absorbing customization length (${label})`,
+          substep: "XOR with customization bit length",
+          messageBlockHex: bytesToHex(new Uint8Array(storeWord(customizationBits)))
+        })
+      ),
+      permutationSegment(HASH_ROUNDS, `Permutation after customization (${label})`),
+      ...hashBlockSegments(
+        customization,
+        `Absorbing customization string (${label})`,
+        `Permutation after customization (${label})`,
+        'customization',
+        () => ({})
+      )
+    );
+  }
+
+  // Absorb the message in padded 64-bit blocks, with p^12 after each one. Steps count the bytes
+  // absorbed so far instead of copying the message.
+  segments.push(...hashBlockSegments(
+    messageBytes,
+    `Absorbing message (${label})`,
+    `Permutation after message block (${label})`,
+    'message',
+    absorbedLength => ({ processedBytes: absorbedLength })
+  ));
+
+  // Squeeze the output 64 bits at a time from x0, with p^12 between blocks
+  for (let offset = 0; offset < outputLength; offset += HASH_RATE_BYTES) {
+    const squeezed = Math.min(offset + HASH_RATE_BYTES, outputLength);
+    const squeezeContext = () => ({ processedBytes: messageBytes.length, digest: bytesToHex(output.subarray(0, squeezed)) });
+
+    segments.push(stateSegment(
+      state => output.set(storeWord(state[0]).slice(0, squeezed - offset), offset),
+      () => ({
+        step: `Squeezing ${outputName} (${label})`,
+        roundNumber: offset / HASH_RATE_BYTES,
+        substep: "Extract rate block",
+        ...squeezeContext()
+      })
+    ));
+
+    if (squeezed < outputLength) {
+      segments.push(permutationSegment(HASH_ROUNDS, `Permutation between squeezes (${label})`, squeezeContext));
+    }
+  }
+
+  segments.push(stateSegment(() => {}, () => ({
+    step: `Final state - ${outputTitle} generated (${label})`,
+    processedBytes: messageBytes.length,
+    digest: bytesToHex(output)
+  })));
+
+  return createLazyTrace(segments, onProgress);
+}
+
+// Checks an XOF output length
+function validateOutputLength(outputLength: number) {
+  if (!Number.isInteger(outputLength) || outputLength < 1) {
+    throw new Error('Output length must be a positive number of bytes');
+  }
+}
+
+// Ascon-Hash256 as a lazy trace
+export function hashAsconTrace(message: string, onProgress?: TraceProgressCallback): LazyTrace {
+  return hashSpongeTrace(message, HASH_IV, HASH_OUTPUT_BYTES, 'hash', undefined, onProgress);
+}
+
+// Ascon-Hash256, recording every state change for visualization
+export function hashAsconForVisualization(message: string): StateStep[] {
+  return materializeTrace(hashAsconTrace(message));
+}
+
+// Ascon-XOF128 with an output of `outputLength` bytes as a lazy trace
+export function xofAsconTrace(
+  message: string,
+  outputLength: number = HASH_OUTPUT_BYTES,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  validateOutputLength(outputLength);
+  return hashSpongeTrace(message, XOF_IV, outputLength, 'XOF', undefined, onProgress);
+}
+
+// Ascon-XOF128 with an output of `outputLength` bytes, recording every state change
+export function xofAsconForVisualization(
+  message: string,
+  outputLength: number = HASH_OUTPUT_BYTES
+): StateStep[] {
+  return materializeTrace(xofAsconTrace(message, outputLength));
+}
+
+// Ascon-CXOF128 with a customization string and an output of `outputLength` bytes as a lazy trace
+export function cxofAsconTrace(
+  message: string,
+  customization: string = '',
+  outputLength: number = HASH_OUTPUT_BYTES,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  const customizationBytes = textToBytes(customization);
+
+  validateOutputLength(outputLength);
+  if (customizationBytes.length > CXOF_MAX_CUSTOMIZATION_BYTES) {
+    throw new Error(`Customization string must be at most ${CXOF_MAX_CUSTOMIZATION_BYTES} bytes`);
+  }
+
+  return hashSpongeTrace(message, CXOF_IV, outputLength, 'CXOF', customizationBytes, onProgress);
+}
+
+// Ascon-CXOF128 with a customization string and an output of `outputLength` bytes,
+// recording every state change
+export function cxofAsconForVisualization(
+  message: string,
+  customization: string = '',
+  outputLength: number = HASH_OUTPUT_BYTES
+): StateStep[] {
+  return materializeTrace(cxofAsconTrace(message, customization, outputLength));
+}
+
+// Keyed constructions supported by macAsconForVisualization
+export type MacVariant = 'Ascon-Mac' | 'Ascon-Prf' | 'Ascon-PrfShort';
+
+// Ascon-Mac (128-bit tag), Ascon-Prf (any output length) or Ascon-PrfShort
+// (messages and outputs of at most 128 bits) as a lazy trace
+export function macAsconTrace(
+  message: string,
+  key: string | Uint8Array = 'ASCON visualization key',
+  variant: MacVariant = 'Ascon-Mac',
+  outputLength: number = MAC_TAG_BYTES,
+  onProgress?: TraceProgressCallback
+): LazyTrace {
+  const messageBytes = textToBytes(message);
+  const keyBytes = toFixedBytes(key, MAC_KEY_BYTES, 'Key');
+  const k0 = loadWord(keyBytes, 0, 'big');
+  const k1 = loadWord(keyBytes, 8, 'big');
+  const outputTitle = variant === 'Ascon-Mac' ? 'Tag' : 'Output';
+
+  validateOutputLength(outputLength);
+  if (variant === 'Ascon-Mac' && outputLength > MAC_TAG_BYTES) {
+    throw new Error(`Ascon-Mac tags are at most ${MAC_TAG_BYTES} bytes`);
+  }
+  if (variant === 'Ascon-PrfShort' && (outputLength > PRF_SHORT_MAX_BYTES || messageBytes.length > PRF_SHORT_MAX_BYTES)) {
+    throw new Error(`Ascon-PrfShort messages and outputs are at most ${PRF_SHORT_MAX_BYTES} bytes`);
+  }
+
+  // To store the squeezed tag or output
+  const output = new Uint8Array(outputLength);
+
+  // Steps count the message bytes absorbed so far instead of copying the message
+  const absorbedContext = (length: number) => () => ({ processedBytes: length });
+  const outputContext = (length: number) => () => ({
+    ...absorbedContext(messageBytes.length)(),
+    digest: bytesToHex(output.subarray(0, length))
   });
-  
-  return stateSteps;
-} 
\ No newline at end of file
+
+  const segments: TraceSegment[] = [
+    stateSegment(() => {}, () => ({ step: `Initial state (${variant})` }))
+  ];
+
+  if (variant === 'Ascon-PrfShort') {
+    // The whole message fits into the state next to the IV and key
+    const paddedMessage = fitBytes(messageBytes, PRF_SHORT_MAX_BYTES);
+
+    segments.push(
+      stateSegment(
+        state => {
+          state[0] = BigInt(MAC_KEY_BYTES * 8) << 56n
+            | BigInt(messageBytes.length * 8) << 48n
+            | BigInt(MAC_ROUNDS + 64) << 40n
+            | BigInt(outputLength * 8) << 32n;
+          state[1] = k0;
+          state[2] = k1;
+          state[3] = loadWord(paddedMessage, 0, 'big');
+          state[4] = loadWord(paddedMessage, 8, 'big');
+        },
+        () => ({ step: `After initialization with IV, key and message (${variant})`, ...absorbedContext(messageBytes.length)() })
+      ),
+
+      permutationSegment(MAC_ROUNDS, `Permutation (${variant})`, absorbedContext(messageBytes.length)),
+
+      // XOR key with state to get the output
+      stateSegment(
+        state => {
+          state[3] ^= k0;
+          state[4] ^= k1;
+          output.set([...storeWord(state[3], 'big'), ...storeWord(state[4], 'big')].slice(0, outputLength));
+        },
+        () => ({ step: `Finalization - XOR with key (${variant})`, ...outputContext(outputLength)() })
+      ),
+
+      stateSegment(() => {}, () => ({
+        step: `Final state - ${outputTitle} generated (${variant})`,
+        ...outputContext(outputLength)()
+      }))
+    );
+
+    return createLazyTrace(segments, onProgress);
+  }
+
+  // Initialization phase: IV || key || 0^128, where the IV encodes the
+  // key size, output rate, rounds and (for Ascon-Mac) the tag size
+  segments.push(
+    stateSegment(
+      state => {
+        state[0] = BigInt(MAC_KEY_BYTES * 8) << 56n
+          | BigInt(MAC_OUTPUT_RATE_BYTES * 8) << 48n
+          | BigInt(MAC_ROUNDS + 128) << 40n
+          | BigInt(variant === 'Ascon-Mac' ? MAC_TAG_BYTES * 8 : 0);
+        state[1] = k0;
+        state[2] = k1;
+      },
+      () => ({ step: `After initialization with IV and key (${variant})` })
+    ),
+
+    permutationSegment(MAC_ROUNDS, `Permutation (${variant})`)
+  );
+
+  // Absorb the message in 32-byte blocks padded with 0x80 00..., with p^12
+  // between blocks and a domain separation bit on the last one
+  const paddedLength = (Math.floor(messageBytes.length / MAC_INPUT_RATE_BYTES) + 1) * MAC_INPUT_RATE_BYTES;
+  const paddedMessage = fitBytes(messageBytes, paddedLength);
+  paddedMessage[messageBytes.length] = 0x80;
+
+  for (let offset = 0; offset < paddedLength; offset += MAC_INPUT_RATE_BYTES) {
+    const isLastBlock = offset + MAC_INPUT_RATE_BYTES === paddedLength;
+    const blockContext = absorbedContext(Math.min(offset + MAC_INPUT_RATE_BYTES, messageBytes.length));
+
+    segments.push(stateSegment(
+      state => {
+        for (let i = 0; i < 4; i++) {
+          state[i] ^= loadWord(paddedMessage, offset + 8 * i, 'big');
+        }
+        if (isLastBlock) {
+          state[4] ^= 1n;
+        }
+      },
+      () => ({
+        step: `Absorbing message (${variant})`,
+        roundNumber: offset / MAC_INPUT_RATE_BYTES,
+        substep: isLastBlock ? "XOR with padded message block and domain separation" : "XOR with message block",
+        messageBlockHex: bytesToHex(paddedMessage.subarray(offset, offset + MAC_INPUT_RATE_BYTES)),
+        rateByteKinds: getRateByteKinds(Math.min(messageBytes.length - offset, MAC_INPUT_RATE_BYTES), MAC_INPUT_RATE_BYTES, isLastBlock),
+        ...blockContext()
+      })
+    ));
+
+    if (!isLastBlock) {
+      segments.push(permutationSegment(MAC_ROUNDS, `Permutation after message block (${variant})`, blockContext));
+    }
+  }
+
+  segments.push(permutationSegment(MAC_ROUNDS, `Final permutation (${variant})`, absorbedContext(messageBytes.length)));
+
+  // Squeeze the output 128 bits at a time from x0 and x1, with p^12 between blocks
+  for (let offset = 0; offset < outputLength; offset += MAC_OUTPUT_RATE_BYTES) {
+    const squeezed = Math.min(offset + MAC_OUTPUT_RATE_BYTES, outputLength);
+
+    segments.push(stateSegment(
+      state => {
+        const rate = [...storeWord(state[0], 'big'), ...storeWord(state[1], 'big')];
+        output.set(rate.slice(0, squeezed - offset), offset);
+      },
+      () => ({
+        step: `Squeezing output (${variant})`,
+        roundNumber: offset / MAC_OUTPUT_RATE_BYTES,
+        substep: "Extract rate block",
+        ...outputContext(squeezed)()
+      })
+    ));
+
+    if (squeezed < outputLength) {
+      segments.push(permutationSegment(MAC_ROUNDS, `Permutation between squeezes (${variant})`, outputContext(squeezed)));
+    }
+  }
+
+  segments.push(stateSegment(() => {}, () => ({
+    step: `Final state - ${outputTitle} generated (${variant})`,
+    ...outputContext(outputLength)()
+  })));
+
+  return createLazyTrace(segments, onProgress);
+}
+
+// Ascon-Mac (128-bit tag), Ascon-Prf (any output length) or Ascon-PrfShort
+// (messages and outputs of at most 128 bits), recording every state change
+export function macAsconForVisualization(
+  message: string,
+  key: string | Uint8Array = 'ASCON visualization key',
+  variant: MacVariant = 'Ascon-Mac',
+  outputLength: number = MAC_TAG_BYTES
+): StateStep[] {
+  return materializeTrace(macAsconTrace(message, key, variant, outputLength));
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { permuteAsconTrace, AsconState } from './ascon';
+import { flipBit, hammingWeight, stateDifference, stateHammingDistance, traceDistances } from './avalanche';
+
+const STATE: AsconState = [0x0123456789abcdefn, 0xfedcba9876543210n, 0n, 0xffffffffffffffffn, 0x8000000000000001n];
+const ALL_ONES = 0xffffffffffffffffn;
+
+describe('Hamming distance', () => {
+  it('counts the set bits of a word', () => {
+    expect(hammingWeight(0n)).toBe(0);
+    expect(hammingWeight(0x8000000000000001n)).toBe(2);
+    expect(hammingWeight(ALL_ONES)).toBe(64);
+  });
+
+  it('is 0 between equal states and 320 between complementary ones', () => {
+    const complement = STATE.map(word => word ^ ALL_ONES) as AsconState;
+    expect(stateHammingDistance(STATE, [...STATE] as AsconState)).toBe(0);
+    expect(stateHammingDistance(STATE, complement)).toBe(320);
+    expect(stateDifference(STATE, complement)).toEqual([ALL_ONES, ALL_ONES, ALL_ONES, ALL_ONES, ALL_ONES]);
+  });
+});
+
+describe('Flipping a bit', () => {
+  it('counts bits from the most significant bit of the first byte', () => {
+    expect(flipBit(Uint8Array.of(0, 0), 0)).toEqual(Uint8Array.of(0x80, 0));
+    expect(flipBit(Uint8Array.of(0, 0xff), 15)).toEqual(Uint8Array.of(0, 0xfe));
+  });
+
+  it('rejects bits outside the input', () => {
+    expect(() => flipBit(Uint8Array.of(0, 0), 16)).toThrow();
+    expect(() => flipBit(Uint8Array.of(0, 0), -1)).toThrow();
+  });
+});
+
+describe('Avalanche', () => {
+  // One flipped bit in every word, at a few positions
+  const flips = [0, 1, 2, 3, 4].flatMap(word => [0, 13, 26, 39, 52].map(position => {
+    const flipped = [...STATE] as AsconState;
+    flipped[word] ^= 1n << BigInt(position);
+    return flipped;
+  }));
+
+  it('starts from a single differing bit', () => {
+    expect(traceDistances(permuteAsconTrace(STATE, 12), permuteAsconTrace(flips[0], 12))[0]).toBe(1);
+  });
+
+  it('spreads one flipped input bit over about half of the 320 state bits after 12 rounds', () => {
+    const finalDistances = flips.map(flipped => {
+      const distances = traceDistances(permuteAsconTrace(STATE, 12), permuteAsconTrace(flipped, 12));
+      return distances[distances.length - 1];
+    });
+    expect(Math.min(...finalDistances)).toBeGreaterThan(120);
+    expect(Math.max(...finalDistances)).toBeLessThan(200);
+    const average = finalDistances.reduce((sum, distance) => sum + distance, 0) / finalDistances.length;
+    expect(Math.abs(average - 160)).toBeLessThan(10);
+  });
+});
@@ -0,0 +1,51 @@
+// Avalanche analysis: how far two traces drift apart after a single input bit is flipped
+
+import { AsconState, LazyTrace, TraceProgressCallback } from './ascon';
+
+// Inputs of an encryption that a bit can be flipped in
+export type AvalancheTarget = 'plaintext' | 'key' | 'nonce' | 'associatedData';
+
+const PROGRESS_INTERVAL = 4096; // Steps compared between two progress reports
+
+// Returns a copy of `bytes` with bit `bit` flipped, counting from the most significant bit of byte 0
+export function flipBit(bytes: Uint8Array, bit: number): Uint8Array {
+  if (!Number.isInteger(bit) || bit < 0 || bit >= bytes.length * 8) {
+    throw new Error(`Bit ${bit} is outside the ${bytes.length * 8}-bit input`);
+  }
+  const flipped = new Uint8Array(bytes);
+  flipped[bit >> 3] ^= 0x80 >> (bit & 7);
+  return flipped;
+}
+
+// Number of set bits in a 64-bit word
+export function hammingWeight(word: bigint): number {
+  let count = 0;
+  for (let rest = word; rest; rest &= rest - 1n) {
+    count++;
+  }
+  return count;
+}
+
+// XOR difference of two states, word by word
+export function stateDifference(a: AsconState, b: AsconState): AsconState {
+  return a.map((word, i) => word ^ b[i]) as AsconState;
+}
+
+// Number of the 320 state bits that differ between two states
+export function stateHammingDistance(a: AsconState, b: AsconState): number {
+  return a.reduce((distance, word, i) => distance + hammingWeight(word ^ b[i]), 0);
+}
+
+// Hamming distance between the states of two traces at every step they both have
+export function traceDistances(a: LazyTrace, b: LazyTrace, onProgress?: TraceProgressCallback): number[] {
+  const length = Math.min(a.length, b.length);
+  const distances: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(i / length);
+    }
+    distances.push(stateHammingDistance(a.getStep(i).state, b.getStep(i).state));
+  }
+  onProgress?.(1);
+  return distances;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CPA_COLUMNS, CPA_TARGET_SAMPLE, CpaOptions, correlationPowerAnalysis, predictColumnLeakage, runCpa, simulateCpaTraces } from './cpa';
+
+const OPTIONS: CpaOptions = {
+  key: Uint8Array.from({ length: 16 }, (_, i) => i),
+  traceCount: 200,
+  model: 'hammingWeight',
+  noise: 0,
+  seed: 1n
+};
+
+// Helper function to read the key bits (x1, x2) of a column as a guess
+const keyGuess = (keyWords: [bigint, bigint], column: number) =>
+  (Number((keyWords[0] >> BigInt(column)) & 1n) << 1) | Number((keyWords[1] >> BigInt(column)) & 1n);
+
+describe('Correlation power analysis', () => {
+  it.each(['hammingWeight', 'hammingDistance'] as const)('predicts the %s of every column of the first S-box layer', model => {
+    const { traces, keyWords } = simulateCpaTraces({ ...OPTIONS, model, traceCount: 20 });
+    for (const trace of traces) {
+      const columns = Array.from({ length: CPA_COLUMNS }, (_, column) => predictColumnLeakage(trace.publicWords, column, keyGuess(keyWords, column), model));
+      expect(columns.reduce((sum, leakage) => sum + leakage, 0)).toBe(trace.leakage[CPA_TARGET_SAMPLE]);
+    }
+  });
+
+  it('ranks the real key bits of a column first when the sample holds its leakage', () => {
+    const { traces, keyWords } = simulateCpaTraces(OPTIONS);
+    for (const column of [0, 5, 36, 63]) {
+      const guess = keyGuess(keyWords, column);
+      const columnTraces = traces.map(trace => {
+        const leakage = [...trace.leakage];
+        leakage[CPA_TARGET_SAMPLE] = predictColumnLeakage(trace.publicWords, column, guess, OPTIONS.model);
+        return { ...trace, leakage };
+      });
+      const { correlations, bestGuess, correctGuess } = correlationPowerAnalysis(columnTraces, OPTIONS.model, keyWords)[column];
+      expect(correctGuess).toBe(guess);
+      expect(bestGuess).toBe(guess);
+      expect(correlations[guess][CPA_TARGET_SAMPLE]).toBeCloseTo(1);
+    }
+  });
+
+  it('recovers most key bits from the leakage of the whole state at zero noise', () => {
+    const result = runCpa({ ...OPTIONS, traceCount: 1000 });
+    expect(result.recoveredBits).toBeGreaterThan(112);
+  });
+
+  it('repeats a seeded run exactly, noise included', () => {
+    const noisy = { ...OPTIONS, noise: 2, traceCount: 20 };
+    expect(runCpa(noisy)).toEqual(runCpa(noisy));
+    expect(runCpa(noisy).exampleTraces).not.toEqual(runCpa({ ...noisy, seed: 2n }).exampleTraces);
+  });
+});
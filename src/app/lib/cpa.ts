@@ -0,0 +1,213 @@
+// Correlation power analysis (CPA) on simulated leakage of Ascon-AEAD128's initialization.
+// The state is loaded as IV || key || nonce, so every column entering the first S-box layer holds
+// one public IV bit, two key bits (x1, x2) and two nonce bits (x3, x4). For each column the
+// attack tries all four values of the key bits, predicts the S-box leakage under random nonces
+// and keeps the guess whose prediction correlates best with the measured power.
+
+import {
+  encryptAsconTrace,
+  maskedPermuteAsconForVisualization,
+  getRoundConstant,
+  randomWord,
+  seededRandomWords,
+  ASCON_VARIANTS,
+  AsconVariantName,
+  NONCE_BYTES,
+  ROUND_CONSTANTS,
+  RandomWordSource,
+  SBOX,
+  ShareCount,
+  StateStep,
+  TraceProgressCallback
+} from './ascon';
+import { LeakageModel, simulateLeakage } from './leakage';
+import { bitCount } from './sboxAnalysis';
+
+const CPA_VARIANT: AsconVariantName = 'Ascon-AEAD128';
+const LOADED_STATE_STEP = 1; // Step of an encryption trace holding the freshly loaded state
+const CPA_ROUNDS = 2; // Initialization rounds covered by a simulated trace
+const FIRST_CONSTANT = ROUND_CONSTANTS.length - ASCON_VARIANTS[CPA_VARIANT].roundsA;
+const EXAMPLE_TRACES = 5; // Simulated traces kept for plotting
+const PROGRESS_INTERVAL = 64; // Simulated encryptions between two progress reports
+
+export const CPA_COLUMNS = 64; // S-box columns, each attacked on its own
+export const CPA_KEY_GUESSES = 4; // Values of the two key bits (x1, x2) in a column
+export const CPA_MAX_TRACES = 5000; // Most simulated encryptions in one attack
+
+// What each sample of a simulated trace measures
+export const CPA_SAMPLE_LABELS = [
+  'Loaded state',
+  'Round 1: constant',
+  'Round 1: S-box',
+  'Round 1: linear layer',
+  'Round 2: constant',
+  'Round 2: S-box',
+  'Round 2: linear layer'
+];
+export const CPA_TARGET_SAMPLE = 2; // The first S-box layer, where key and nonce bits first mix
+
+// Helper function to read bit `column` of a word
+function columnBit(word: bigint, column: number): number {
+  return Number((word >> BigInt(column)) & 1n);
+}
+
+// Leakage of one S-box column for each of its 32 inputs, under both models
+const SBOX_LEAKAGE: Record<LeakageModel, number[]> = {
+  hammingWeight: SBOX.map(output => bitCount(output)),
+  hammingDistance: SBOX.map((output, input) => bitCount(input ^ output))
+};
+
+// Settings of one simulated attack
+export interface CpaOptions {
+  key: Uint8Array;
+  traceCount: number;
+  model: LeakageModel;
+  noise: number; // Standard deviation of the Gaussian noise, in bits
+  shareCount?: ShareCount; // Masks the initialization with this many shares
+  seed?: bigint; // Draws nonces, masks and noise from seededRandomWords, so the attack can be repeated
+}
+
+// One simulated encryption: its leakage and the public words of the loaded state (x0, x3, x4)
+export interface SimulatedTrace {
+  leakage: number[];
+  publicWords: [bigint, bigint, bigint];
+}
+
+// Correlation of every key guess of one column with every sample
+export interface CpaColumnResult {
+  correlations: number[][]; // [guess][sample]
+  bestGuess: number; // Guess with the highest correlation at CPA_TARGET_SAMPLE
+  correctGuess: number;
+}
+
+// Outcome of an attack on all 64 columns
+export interface CpaResult {
+  columns: CpaColumnResult[];
+  keyWords: [bigint, bigint]; // Key words x1 and x2 as loaded into the state
+  recoveredKeyWords: [bigint, bigint]; // The same words as put together from the best guesses
+  recoveredBits: number; // Key bits recovered correctly, out of 128
+  exampleTraces: number[][];
+  shareCount?: ShareCount; // Shares of the masked device attacked, if it was masked
+}
+
+// Messages between the page and the CPA worker; each run is one attack, e.g. unmasked and masked
+export type CpaWorkerRequest = { type: 'run'; requestId: number; runs: CpaOptions[] };
+export type CpaWorkerResponse =
+  | { type: 'progress'; requestId: number; fraction: number }
+  | { type: 'result'; requestId: number; results: CpaResult[] }
+  | { type: 'error'; requestId: number; message: string };
+
+// Predicted leakage of S-box column `column` in the first round, if its key bits are `guess`
+// (x1 as the high bit, x2 as the low bit). The round constant is public and enters x2 first.
+export function predictColumnLeakage(publicWords: [bigint, bigint, bigint], column: number, guess: number, model: LeakageModel): number {
+  const constantBit = columnBit(BigInt(getRoundConstant(FIRST_CONSTANT)), column); // A number shift would wrap at 32
+  const input = (columnBit(publicWords[0], column) << 4)
+    | ((guess >> 1) << 3)
+    | (((guess & 1) ^ constantBit) << 2)
+    | (columnBit(publicWords[1], column) << 1)
+    | columnBit(publicWords[2], column);
+  return SBOX_LEAKAGE[model][input];
+}
+
+// Helper function to draw a nonce from a source of random words
+function randomNonce(random: RandomWordSource): Uint8Array {
+  const nonce = new Uint8Array(NONCE_BYTES);
+  const view = new DataView(nonce.buffer);
+  for (let offset = 0; offset < NONCE_BYTES; offset += 8) {
+    view.setBigUint64(offset, random());
+  }
+  return nonce;
+}
+
+// Pearson correlation of a centered series with `values`, given the norm of the centered series
+function correlation(centered: number[], norm: number, values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let product = 0;
+  let squares = 0;
+  for (let i = 0; i < values.length; i++) {
+    const deviation = values[i] - mean;
+    product += centered[i] * deviation;
+    squares += deviation * deviation;
+  }
+  return norm === 0 || squares === 0 ? 0 : product / (norm * Math.sqrt(squares));
+}
+
+// Runs `traceCount` encryptions of an empty message under random nonces and simulates the
+// leakage of the first initialization rounds, masked or not. Also returns the loaded key words,
+// which only the evaluation uses.
+export function simulateCpaTraces(
+  options: CpaOptions,
+  onProgress?: TraceProgressCallback
+): { traces: SimulatedTrace[]; keyWords: [bigint, bigint] } {
+  const { key, traceCount, model, noise, shareCount, seed } = options;
+  if (!Number.isInteger(traceCount) || traceCount < 2 || traceCount > CPA_MAX_TRACES) {
+    throw new Error(`Trace count must be a whole number from 2 to ${CPA_MAX_TRACES}`);
+  }
+
+  // Random words for nonces and masks, and numbers in [0, 1) from their top 53 bits for the noise
+  const random = seed === undefined ? randomWord : seededRandomWords(seed);
+  const randomFraction = seed === undefined ? Math.random : () => Number(random() >> 11n) / 2 ** 53;
+
+  const traces: SimulatedTrace[] = [];
+  let keyWords: [bigint, bigint] = [0n, 0n];
+  for (let i = 0; i < traceCount; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(i / traceCount);
+    }
+    const trace = encryptAsconTrace(new Uint8Array(0), key, randomNonce(random), '', CPA_VARIANT);
+    const loaded = trace.getStep(LOADED_STATE_STEP).state;
+    const steps: StateStep[] = shareCount
+      ? maskedPermuteAsconForVisualization(loaded, CPA_ROUNDS, shareCount, FIRST_CONSTANT, random)
+      : Array.from({ length: CPA_SAMPLE_LABELS.length }, (_, sample) => trace.getStep(LOADED_STATE_STEP + sample));
+
+    keyWords = [loaded[1], loaded[2]];
+    traces.push({ leakage: simulateLeakage(steps, model, noise, randomFraction), publicWords: [loaded[0], loaded[3], loaded[4]] });
+  }
+  onProgress?.(1);
+  return { traces, keyWords };
+}
+
+// Correlates every key guess of every column with every sample of the traces
+export function correlationPowerAnalysis(traces: SimulatedTrace[], model: LeakageModel, keyWords: [bigint, bigint]): CpaColumnResult[] {
+  const samples = Array.from({ length: CPA_SAMPLE_LABELS.length }, (_, sample) => traces.map(trace => trace.leakage[sample]));
+
+  return Array.from({ length: CPA_COLUMNS }, (_, column) => {
+    const correlations = Array.from({ length: CPA_KEY_GUESSES }, (_, guess) => {
+      const predictions = traces.map(trace => predictColumnLeakage(trace.publicWords, column, guess, model));
+      const mean = predictions.reduce((sum, value) => sum + value, 0) / predictions.length;
+      const centered = predictions.map(value => value - mean);
+      const norm = Math.sqrt(centered.reduce((sum, value) => sum + value * value, 0));
+      return samples.map(values => correlation(centered, norm, values));
+    });
+
+    const bestGuess = correlations.reduce(
+      (best, guessCorrelations, guess) => (guessCorrelations[CPA_TARGET_SAMPLE] > correlations[best][CPA_TARGET_SAMPLE] ? guess : best),
+      0
+    );
+    const correctGuess = (columnBit(keyWords[0], column) << 1) | columnBit(keyWords[1], column);
+    return { correlations, bestGuess, correctGuess };
+  });
+}
+
+// Simulates the traces and attacks them
+export function runCpa(options: CpaOptions, onProgress?: TraceProgressCallback): CpaResult {
+  const { traces, keyWords } = simulateCpaTraces(options, onProgress);
+  const columns = correlationPowerAnalysis(traces, options.model, keyWords);
+
+  const recoveredKeyWords: [bigint, bigint] = [0n, 0n];
+  let recoveredBits = 0;
+  columns.forEach(({ bestGuess, correctGuess }, column) => {
+    recoveredKeyWords[0] |= BigInt(bestGuess >> 1) << BigInt(column);
+    recoveredKeyWords[1] |= BigInt(bestGuess & 1) << BigInt(column);
+    recoveredBits += 2 - bitCount(bestGuess ^ correctGuess);
+  });
+
+  return {
+    columns,
+    keyWords,
+    recoveredKeyWords,
+    recoveredBits,
+    exampleTraces: traces.slice(0, EXAMPLE_TRACES).map(trace => trace.leakage),
+    shareCount: options.shareCount
+  };
+}
@@ -0,0 +1,21 @@
+// Web Worker that simulates leakage traces and runs correlation power analysis on them
+
+import { runCpa, CpaWorkerRequest, CpaWorkerResponse } from './cpa';
+
+const respond = (response: CpaWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<CpaWorkerRequest>) => {
+  const { requestId, runs } = event.data;
+
+  try {
+    // Every run is one phase of the progress
+    const results = runs.map((options, run) => runCpa(options, fraction => {
+      respond({ type: 'progress', requestId, fraction: (run + fraction) / runs.length });
+    }));
+    respond({ type: 'result', requestId, results });
+  } catch (error) {
+    respond({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
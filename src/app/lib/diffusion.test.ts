@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { LINEAR_ROTATIONS } from './ascon';
+import { SBOX_DEPENDENCIES, STATE_BITS, bitDependencyRounds, dependencyCount, stateBitIndex, wordDependencyFraction } from './diffusion';
+
+describe('Bit dependencies', () => {
+  it('start with every bit depending only on itself', () => {
+    const [identity] = bitDependencyRounds(0);
+    expect(identity).toHaveLength(STATE_BITS);
+    identity.forEach((mask, bit) => expect(mask).toBe(1n << BigInt(bit)));
+  });
+
+  it('spread one bit through its S-box column and both Σ rotations in one round', () => {
+    // x0 reaches every output word of its column except x2, and Σi copies bit b of word i
+    // to bits b, b - r1 and b - r2
+    expect(SBOX_DEPENDENCIES.map(inputs => inputs[0])).toEqual([true, true, false, true, true]);
+    const expected = [0, 1, 3, 4]
+      .flatMap(word => [0, ...LINEAR_ROTATIONS[word]].map(rotation => stateBitIndex(word, (64 - rotation) % 64)))
+      .sort((a, b) => a - b);
+
+    const [, oneRound] = bitDependencyRounds(1);
+    const input = BigInt(stateBitIndex(0, 0));
+    const reached = oneRound.flatMap((mask, bit) => ((mask >> input) & 1n ? [bit] : []));
+    expect(reached).toEqual(expected);
+  });
+
+  it('reach full diffusion after 4 rounds', () => {
+    const history = bitDependencyRounds(5);
+    const fullDiffusionRound = history.findIndex(round => round.every(mask => dependencyCount(mask) === STATE_BITS));
+    expect(fullDiffusionRound).toBe(4);
+    expect(wordDependencyFraction(history[3], 0, 0)).toBeLessThan(1);
+    expect(wordDependencyFraction(history[4], 0, 0)).toBe(1);
+  });
+});
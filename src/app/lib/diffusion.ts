@@ -0,0 +1,82 @@
+// Structural bit dependencies of the Ascon permutation: which input bits each state bit can
+// depend on after a number of rounds, following the S-box and the Σ functions
+
+import { SBOX, LINEAR_ROTATIONS } from './ascon';
+import { hammingWeight } from './avalanche';
+
+export const STATE_BITS = 320;
+
+// Dependencies of every state bit, one mask of input bits per state bit. Bit `64 * word + position`
+// stands for bit `position` (0 is the least significant) of word `word`, in both the index and the masks.
+export type BitDependencies = bigint[];
+
+// Index of bit `position` of word `word`
+export function stateBitIndex(word: number, position: number): number {
+  return 64 * word + position;
+}
+
+// Which S-box input words each output word depends on: output word j depends on input word i
+// when flipping bit i of some column input can change bit j of the column output
+export const SBOX_DEPENDENCIES: boolean[][] = Array.from({ length: 5 }, (_, outputWord) =>
+  Array.from({ length: 5 }, (_, inputWord) => {
+    const outputBit = 4 - outputWord; // x0 is the most significant bit of a column
+    const inputBit = 4 - inputWord;
+    return SBOX.some((output, input) => ((output ^ SBOX[input ^ (1 << inputBit)]) >> outputBit) & 1);
+  })
+);
+
+// Before any round every bit depends only on itself
+export function identityDependencies(): BitDependencies {
+  return Array.from({ length: STATE_BITS }, (_, bit) => 1n << BigInt(bit));
+}
+
+// Dependencies after one more round. The round constant adds no dependencies, the S-box mixes
+// the five bits of a column, and Σi makes bit b of word i depend on bits b, b + r1 and b + r2.
+export function applyRoundDependencies(dependencies: BitDependencies): BitDependencies {
+  const afterSbox = Array.from({ length: STATE_BITS }, (_, bit) => {
+    const word = Math.floor(bit / 64);
+    const position = bit % 64;
+    let mask = 0n;
+    SBOX_DEPENDENCIES[word].forEach((depends, inputWord) => {
+      if (depends) mask |= dependencies[stateBitIndex(inputWord, position)];
+    });
+    return mask;
+  });
+
+  return Array.from({ length: STATE_BITS }, (_, bit) => {
+    const word = Math.floor(bit / 64);
+    const position = bit % 64;
+    const [r1, r2] = LINEAR_ROTATIONS[word];
+    return afterSbox[bit]
+      | afterSbox[stateBitIndex(word, (position + r1) % 64)]
+      | afterSbox[stateBitIndex(word, (position + r2) % 64)];
+  });
+}
+
+// Dependencies after 0, 1, ..., `rounds` rounds
+export function bitDependencyRounds(rounds: number): BitDependencies[] {
+  const history = [identityDependencies()];
+  for (let round = 0; round < rounds; round++) {
+    history.push(applyRoundDependencies(history[round]));
+  }
+  return history;
+}
+
+// Number of input bits a state bit depends on
+export function dependencyCount(mask: bigint): number {
+  let count = 0;
+  for (let word = 0n; word < 5n; word++) {
+    count += hammingWeight((mask >> (64n * word)) & 0xffffffffffffffffn);
+  }
+  return count;
+}
+
+// Fraction of the (input bit, output bit) pairs of `inputWord` and `outputWord` that are dependent
+export function wordDependencyFraction(dependencies: BitDependencies, outputWord: number, inputWord: number): number {
+  let count = 0;
+  for (let position = 0; position < 64; position++) {
+    const mask = dependencies[stateBitIndex(outputWord, position)] >> BigInt(64 * inputWord);
+    count += hammingWeight(mask & 0xffffffffffffffffn);
+  }
+  return count / (64 * 64);
+}
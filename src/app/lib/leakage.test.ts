@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AsconState, StateStep } from './ascon';
+import { gaussianNoise, simulateLeakage, stepLeakage } from './leakage';
+
+// Helper function to make a step holding `state`, with optional shares
+const step = (state: AsconState, shares?: AsconState[]): StateStep => ({ step: 'Test step', state, ...(shares ? { shares } : {}) });
+
+const ZERO: AsconState = [0n, 0n, 0n, 0n, 0n];
+const STEPS = [
+  step([1n, 0n, 0n, 0n, 0n]),
+  step([3n, 0n, 0n, 0n, 0xffn]),
+  step([0n, 0n, 0xffffffffffffffffn, 0n, 0n])
+];
+
+describe('Leakage model', () => {
+  it('follows the Hamming weight of the state', () => {
+    expect(STEPS.map((current, i) => stepLeakage(current, STEPS[i - 1], 'hammingWeight'))).toEqual([1, 10, 64]);
+  });
+
+  it('follows the bits toggled since the previous step, starting from an all-zero register', () => {
+    expect(STEPS.map((current, i) => stepLeakage(current, STEPS[i - 1], 'hammingDistance'))).toEqual([1, 9, 74]);
+  });
+
+  it('leaks every share of a masked step instead of the recombined state', () => {
+    const masked = step(ZERO, [[0xfn, 0n, 0n, 0n, 0n], [0xfn, 0n, 0n, 0n, 0n]]);
+    expect(stepLeakage(masked, undefined, 'hammingWeight')).toBe(8);
+  });
+
+  it('adds no noise at zero noise', () => {
+    expect(gaussianNoise(0)).toBe(0);
+    expect(simulateLeakage(STEPS, 'hammingWeight', 0)).toEqual([1, 10, 64]);
+  });
+
+  it('adds noise with the requested spread', () => {
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const samples = Array.from({ length: 4000 }, () => gaussianNoise(2, random));
+    const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    const variance = samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length;
+    expect(Math.abs(mean)).toBeLessThan(0.2);
+    expect(Math.abs(Math.sqrt(variance) - 2)).toBeLessThan(0.2);
+  });
+});
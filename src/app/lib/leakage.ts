@@ -0,0 +1,35 @@
+// Simulated power leakage: a synthetic power trace with one sample per traced step
+
+import { AsconState, StateStep } from './ascon';
+import { stateHammingDistance } from './avalanche';
+
+// How a step's state turns into power consumption: the number of set bits (Hamming weight), or
+// the number of bits that toggled since the previous step (Hamming distance)
+export type LeakageModel = 'hammingWeight' | 'hammingDistance';
+
+const ZERO_STATE: AsconState = [0n, 0n, 0n, 0n, 0n];
+
+// Noise-free leakage of one step. A masked step leaks every share on its own, summed as if the
+// shares were processed side by side; the recombined state is never in a register. The first
+// step's Hamming distance is taken from an all-zero register.
+export function stepLeakage(step: StateStep, previous: StateStep | undefined, model: LeakageModel): number {
+  const shares = step.shares ?? [step.state];
+  const previousShares = previous ? previous.shares ?? [previous.state] : [];
+  return shares.reduce((sum, share, k) => {
+    const reference = model === 'hammingDistance' ? previousShares[k] ?? ZERO_STATE : ZERO_STATE;
+    return sum + stateHammingDistance(share, reference);
+  }, 0);
+}
+
+// Normally distributed noise with standard deviation `sigma` (Box-Muller transform)
+export function gaussianNoise(sigma: number, random: () => number = Math.random): number {
+  if (sigma === 0) return 0;
+  const u = 1 - random(); // In (0, 1], so the logarithm stays finite
+  const v = random();
+  return sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// A synthetic power trace of consecutive steps: the leakage of each step plus Gaussian noise
+export function simulateLeakage(steps: StateStep[], model: LeakageModel, noise: number, random: () => number = Math.random): number[] {
+  return steps.map((step, i) => stepLeakage(step, steps[i - 1], model) + gaussianNoise(noise, random));
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { encryptAsconForVisualization, hexToBytes, textToBytes, ASCON_VARIANTS } from './ascon';
+import { analyzeNonceReuse, applyCrib, dragCrib, xorBytes } from './nonceReuse';
+
+const KEY = Uint8Array.from({ length: 16 }, (_, i) => i);
+const NONCE = Uint8Array.from({ length: 16 }, (_, i) => 16 + i);
+const RATE_BYTES = ASCON_VARIANTS['Ascon-AEAD128'].rateBytes;
+
+// Two messages that share their first block and differ from byte 20 on
+const FIRST = 'Meet me at the bridge at noon, bring the documents';
+const SECOND = 'Meet me at the bridge tonight; come alone and unarmed';
+
+// Helper function to encrypt under the fixed key and nonce and return the ciphertext without its tag
+function encrypt(plaintext: string): Uint8Array {
+  const steps = encryptAsconForVisualization(plaintext, KEY, NONCE);
+  return hexToBytes(steps[steps.length - 1].ciphertext ?? '').slice(0, -16);
+}
+
+describe('Nonce reuse', () => {
+  const plaintext1 = textToBytes(FIRST);
+  const plaintext2 = textToBytes(SECOND);
+  const analysis = analyzeNonceReuse(plaintext1, encrypt(FIRST), plaintext2, encrypt(SECOND), RATE_BYTES);
+
+  it('reveals the XOR of the plaintexts up to the end of the first differing block', () => {
+    expect(analysis.leakedBytes).toBe(2 * RATE_BYTES);
+    expect(analysis.ciphertextXor.subarray(0, analysis.leakedBytes)).toEqual(analysis.plaintextXor.subarray(0, analysis.leakedBytes));
+  });
+
+  it('reveals nothing after that block, where the keystreams part', () => {
+    const rest = analysis.ciphertextXor.length - analysis.leakedBytes;
+    const matching = analysis.ciphertextXor.subarray(analysis.leakedBytes).filter((byte, i) => byte === analysis.plaintextXor[analysis.leakedBytes + i]);
+    expect(rest).toBeGreaterThan(0);
+    expect(matching.length).toBeLessThan(rest);
+  });
+
+  it('leaks the whole message when the ciphertexts never differ', () => {
+    const ciphertext = encrypt(FIRST);
+    expect(analyzeNonceReuse(plaintext1, ciphertext, plaintext1, ciphertext, RATE_BYTES).leakedBytes).toBe(ciphertext.length);
+  });
+
+  it('recovers the other message from a known crib, within the leak', () => {
+    expect(applyCrib(analysis, plaintext1, 0)).toEqual(plaintext2.subarray(0, analysis.leakedBytes));
+    expect(xorBytes(plaintext1, plaintext2)).toEqual(analysis.plaintextXor);
+  });
+
+  it('finds a printable placement when dragging a crib of the other message', () => {
+    const placements = dragCrib(analysis, textToBytes('bridge'));
+    expect(placements).toHaveLength(analysis.leakedBytes - 'bridge'.length + 1);
+    expect(placements.find(placement => placement.offset === FIRST.indexOf('bridge'))?.printable).toBe(true);
+  });
+});
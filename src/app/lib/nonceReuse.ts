@@ -0,0 +1,68 @@
+// Nonce reuse: what two ciphertexts under the same key and nonce reveal about their plaintexts
+
+// Outcome of comparing two encryptions that reused a key and nonce
+export interface NonceReuseAnalysis {
+  ciphertextXor: Uint8Array; // C1 ⊕ C2 over the shorter ciphertext, tags excluded
+  plaintextXor: Uint8Array; // P1 ⊕ P2 over the same bytes
+  // Bytes for which C1 ⊕ C2 = P1 ⊕ P2 is guaranteed. Ascon is a duplex: each ciphertext block
+  // is fed back into the state, so the keystreams only match up to and including the first
+  // block in which the ciphertexts differ.
+  leakedBytes: number;
+}
+
+// A crib placed at one offset, and the bytes of the other message it reveals
+export interface CribPlacement {
+  offset: number;
+  recovered: Uint8Array;
+  printable: boolean;
+}
+
+// XOR of two byte strings over the length of the shorter one
+export function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return Uint8Array.from({ length: Math.min(a.length, b.length) }, (_, i) => a[i] ^ b[i]);
+}
+
+// Whether every byte is printable ASCII (space to tilde)
+export function isPrintable(bytes: Uint8Array): boolean {
+  return bytes.every(byte => byte >= 0x20 && byte <= 0x7e);
+}
+
+// Compares two encryptions under the same key and nonce. `ciphertext1` and `ciphertext2` hold
+// only the encrypted message bytes, without the tag.
+export function analyzeNonceReuse(
+  plaintext1: Uint8Array,
+  ciphertext1: Uint8Array,
+  plaintext2: Uint8Array,
+  ciphertext2: Uint8Array,
+  rateBytes: number
+): NonceReuseAnalysis {
+  const ciphertextXor = xorBytes(ciphertext1, ciphertext2);
+  const firstDifference = ciphertextXor.findIndex(byte => byte !== 0);
+  const leakedBytes = firstDifference < 0
+    ? ciphertextXor.length
+    : Math.min(ciphertextXor.length, (Math.floor(firstDifference / rateBytes) + 1) * rateBytes);
+
+  return {
+    ciphertextXor,
+    plaintextXor: xorBytes(plaintext1, plaintext2),
+    leakedBytes
+  };
+}
+
+// Bytes of the second message revealed by guessing that the first message holds `crib` at
+// `offset`: P2 = (C1 ⊕ C2) ⊕ P1, cut off where the leak ends
+export function applyCrib(analysis: NonceReuseAnalysis, crib: Uint8Array, offset: number): Uint8Array {
+  const end = Math.min(offset + crib.length, analysis.leakedBytes);
+  return Uint8Array.from({ length: Math.max(end - offset, 0) }, (_, i) => analysis.ciphertextXor[offset + i] ^ crib[i]);
+}
+
+// Crib dragging: tries the crib at every offset where it fits inside the leak. Offsets that
+// yield printable text are the likely positions of the crib.
+export function dragCrib(analysis: NonceReuseAnalysis, crib: Uint8Array): CribPlacement[] {
+  const placements: CribPlacement[] = [];
+  for (let offset = 0; crib.length > 0 && offset + crib.length <= analysis.leakedBytes; offset++) {
+    const recovered = applyCrib(analysis, crib, offset);
+    placements.push({ offset, recovered, printable: isPrintable(recovered) });
+  }
+  return placements;
+}
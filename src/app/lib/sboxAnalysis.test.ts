@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { SBOX } from './ascon';
+import {
+  algebraicDegree,
+  algebraicNormalForm,
+  differenceDistributionTable,
+  differencePairs,
+  differentialBranchNumber,
+  formatMonomial,
+  linearApproximationTable,
+  linearBranchNumber,
+  SBOX_SIZE
+} from './sboxAnalysis';
+
+// Helper function to sum a row or column
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Helper function to compute the parity of the set bits of a 5-bit value
+const parity = (value: number) => [0, 1, 2, 3, 4].reduce((bit, i) => bit ^ ((value >> i) & 1), 0);
+
+describe('Difference distribution table', () => {
+  const table = differenceDistributionTable();
+
+  it('has rows and columns that each sum to 32', () => {
+    table.forEach(row => expect(sum(row)).toBe(SBOX_SIZE));
+    table.forEach((_, column) => expect(sum(table.map(row => row[column]))).toBe(SBOX_SIZE));
+  });
+
+  it('maps no difference to no difference and any other difference with probability at most 8/32', () => {
+    expect(table[0][0]).toBe(SBOX_SIZE);
+    expect(Math.max(...table.slice(1).flat())).toBe(8);
+  });
+
+  it('lists each input pair of an entry once', () => {
+    for (let inputDifference = 1; inputDifference < SBOX_SIZE; inputDifference++) {
+      table[inputDifference].forEach((count, outputDifference) => {
+        expect(differencePairs(inputDifference, outputDifference)).toHaveLength(count / 2);
+      });
+    }
+  });
+});
+
+describe('Linear approximation table', () => {
+  const table = linearApproximationTable();
+
+  it('has row sums of ±16, with the sign set by the input that maps to 0', () => {
+    const zeroPreimage = SBOX.indexOf(0);
+    table.forEach((row, inputMask) => expect(sum(row)).toBe(parity(inputMask & zeroPreimage) ? -16 : 16));
+  });
+
+  it('holds the trivial approximation always and no other with a bias above 8/32', () => {
+    expect(table[0]).toEqual([16, ...new Array(SBOX_SIZE - 1).fill(0)]);
+    expect(Math.max(...table.slice(1).flat().map(Math.abs))).toBe(8);
+  });
+});
+
+describe('Branch numbers', () => {
+  it('are 3 for both differences and linear masks', () => {
+    expect(differentialBranchNumber()).toBe(3);
+    expect(linearBranchNumber()).toBe(3);
+  });
+});
+
+describe('Algebraic normal form', () => {
+  const anf = algebraicNormalForm();
+
+  it('reproduces the S-box', () => {
+    SBOX.forEach((output, x) => {
+      const bits = anf.map(monomials => monomials.reduce((bit, monomial) => bit ^ ((x & monomial) === monomial ? 1 : 0), 0));
+      expect(bits.reduce((value, bit) => (value << 1) | bit, 0)).toBe(output);
+    });
+  });
+
+  it('has degree 2 in every output bit', () => {
+    expect(anf.map(algebraicDegree)).toEqual([2, 2, 2, 2, 2]);
+  });
+
+  it('formats monomials with x0 first', () => {
+    expect(formatMonomial(0b10001)).toBe('x0x4');
+    expect(formatMonomial(0)).toBe('1');
+  });
+});
@@ -0,0 +1,122 @@
+// Cryptanalytic properties of the Ascon 5-bit S-box: difference distribution table (DDT),
+// linear approximation table (LAT), algebraic normal form (ANF) and branch numbers
+
+import { SBOX } from './ascon';
+
+export const SBOX_SIZE = 32; // Number of 5-bit column values
+const SBOX_BITS = 5;
+
+// A monomial of the ANF as a mask of input bits; bit 4 is x0, bit 0 is x4, like the column values
+export type Monomial = number;
+
+// Count the set bits of a small value, such as an S-box input or output
+export function bitCount(value: number): number {
+  let count = 0;
+  for (let rest = value; rest; rest &= rest - 1) {
+    count++;
+  }
+  return count;
+}
+
+// Parity of a·x, the dot product of two 5-bit masks
+function dotParity(a: number, x: number): number {
+  return bitCount(a & x) & 1;
+}
+
+// DDT[Δin][Δout]: number of inputs x with S(x) ⊕ S(x ⊕ Δin) = Δout
+export function differenceDistributionTable(sbox: number[] = SBOX): number[][] {
+  const table = Array.from({ length: SBOX_SIZE }, () => new Array<number>(SBOX_SIZE).fill(0));
+  for (let inputDifference = 0; inputDifference < SBOX_SIZE; inputDifference++) {
+    for (let x = 0; x < SBOX_SIZE; x++) {
+      table[inputDifference][sbox[x] ^ sbox[x ^ inputDifference]]++;
+    }
+  }
+  return table;
+}
+
+// Input pairs (x, x ⊕ Δin) whose outputs differ by Δout, each pair listed once
+export function differencePairs(inputDifference: number, outputDifference: number, sbox: number[] = SBOX): [number, number][] {
+  const pairs: [number, number][] = [];
+  for (let x = 0; x < SBOX_SIZE; x++) {
+    const other = x ^ inputDifference;
+    if ((sbox[x] ^ sbox[other]) === outputDifference && (inputDifference === 0 || x < other)) {
+      pairs.push([x, other]);
+    }
+  }
+  return pairs;
+}
+
+// LAT[a][b]: number of inputs x with a·x = b·S(x), minus 16. The approximation holds with
+// probability 1/2 + LAT[a][b] / 32.
+export function linearApproximationTable(sbox: number[] = SBOX): number[][] {
+  return Array.from({ length: SBOX_SIZE }, (_, inputMask) =>
+    Array.from({ length: SBOX_SIZE }, (_, outputMask) =>
+      linearApproximationInputs(inputMask, outputMask, sbox).length - SBOX_SIZE / 2
+    )
+  );
+}
+
+// Inputs x for which the approximation a·x = b·S(x) holds
+export function linearApproximationInputs(inputMask: number, outputMask: number, sbox: number[] = SBOX): number[] {
+  return Array.from({ length: SBOX_SIZE }, (_, x) => x)
+    .filter(x => dotParity(inputMask, x) === dotParity(outputMask, sbox[x]));
+}
+
+// ANF of every output bit (x0 first), as the monomials whose XOR gives it, via the Möbius transform
+export function algebraicNormalForm(sbox: number[] = SBOX): Monomial[][] {
+  return Array.from({ length: SBOX_BITS }, (_, outputWord) => {
+    const coefficients = sbox.map(output => (output >> (SBOX_BITS - 1 - outputWord)) & 1);
+    for (let bit = 1; bit < SBOX_SIZE; bit <<= 1) {
+      for (let x = 0; x < SBOX_SIZE; x++) {
+        if (x & bit) coefficients[x] ^= coefficients[x ^ bit];
+      }
+    }
+    return coefficients
+      .map((coefficient, monomial) => (coefficient ? monomial : -1))
+      .filter(monomial => monomial >= 0)
+      .sort((a, b) => bitCount(b) - bitCount(a) || b - a);
+  });
+}
+
+// Algebraic degree of an ANF
+export function algebraicDegree(monomials: Monomial[]): number {
+  return Math.max(0, ...monomials.map(bitCount));
+}
+
+// Formats a monomial, e.g. x1x4, or 1 for the constant term
+export function formatMonomial(monomial: Monomial): string {
+  if (monomial === 0) return '1';
+  return Array.from({ length: SBOX_BITS }, (_, word) => word)
+    .filter(word => (monomial >> (SBOX_BITS - 1 - word)) & 1)
+    .map(word => `x${word}`)
+    .join('');
+}
+
+// Differential branch number: the fewest active input and output bits of any non-zero difference
+export function differentialBranchNumber(sbox: number[] = SBOX): number {
+  let branchNumber = Infinity;
+  for (let x = 0; x < SBOX_SIZE; x++) {
+    for (let inputDifference = 1; inputDifference < SBOX_SIZE; inputDifference++) {
+      const weight = bitCount(inputDifference) + bitCount(sbox[x] ^ sbox[x ^ inputDifference]);
+      branchNumber = Math.min(branchNumber, weight);
+    }
+  }
+  return branchNumber;
+}
+
+// Linear branch number: the fewest bits in the masks of any non-trivial approximation with a bias
+export function linearBranchNumber(sbox: number[] = SBOX): number {
+  const table = linearApproximationTable(sbox);
+  let branchNumber = Infinity;
+  table.forEach((row, inputMask) => row.forEach((bias, outputMask) => {
+    if (bias !== 0 && (inputMask || outputMask)) {
+      branchNumber = Math.min(branchNumber, bitCount(inputMask) + bitCount(outputMask));
+    }
+  }));
+  return branchNumber;
+}
+
+// Formats a 5-bit value as bits, x0 first
+export function formatColumnBits(value: number): string {
+  return value.toString(2).padStart(SBOX_BITS, '0');
+}
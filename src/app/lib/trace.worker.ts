@@ -0,0 +1,91 @@
+// Web Worker that builds traces and serves their steps, keeping the page responsive while typing
+
+import { LazyTrace, storedTrace } from './ascon';
+import { traceDistances } from './avalanche';
+import { exportTrace } from './traceFile';
+import { createTrace, getTraceSteps, TRACE_STEP_WINDOW, TraceRequest, TraceWorkerRequest, TraceWorkerResponse } from './traceRequest';
+
+const PROGRESS_DELAY = 100; // ms before progress is reported, so short traces don't flash a progress bar
+
+// The most recently generated or loaded trace, the request it came from (and the trace it is
+// compared with, if any); step and export requests for any other trace are stale and ignored
+let currentTrace: LazyTrace | null = null;
+let currentRequest: TraceRequest | null = null;
+let comparisonTrace: LazyTrace | null = null;
+let currentRequestId = -1;
+
+const respond = (response: TraceWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<TraceWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'generate') {
+    const { requestId, comparison } = message;
+    const startedAt = performance.now();
+    currentTrace = null;
+    comparisonTrace = null;
+    currentRequestId = requestId;
+
+    // Building the comparison trace and diffing the two count as further phases of the progress
+    const phases = comparison ? 3 : 1;
+    const reportPhase = (phase: number) => (fraction: number) => {
+      if (fraction < 1 && performance.now() - startedAt > PROGRESS_DELAY) {
+        respond({ type: 'progress', requestId, fraction: (phase + fraction) / phases });
+      }
+    };
+
+    try {
+      const trace = createTrace(message.request, reportPhase(0));
+      const otherTrace = comparison ? createTrace(comparison, reportPhase(1)) : null;
+      const distances = otherTrace ? traceDistances(trace, otherTrace, reportPhase(2)) : undefined;
+      currentTrace = trace;
+      currentRequest = message.request;
+      comparisonTrace = otherTrace;
+      respond({
+        type: 'ready',
+        requestId,
+        length: trace.length,
+        finalStep: trace.length > 0 ? trace.getStep(trace.length - 1) : null,
+        steps: getTraceSteps(trace, 0, TRACE_STEP_WINDOW),
+        comparisonFinalStep: otherTrace && otherTrace.length > 0 ? otherTrace.getStep(otherTrace.length - 1) : undefined,
+        comparisonSteps: otherTrace ? getTraceSteps(otherTrace, 0, TRACE_STEP_WINDOW) : undefined,
+        distances
+      });
+    } catch (error) {
+      respond({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+    }
+  } else if (message.type === 'load') {
+    // Steps read from a file are served as they are, without recomputing anything
+    const { requestId, steps } = message;
+    currentTrace = storedTrace(steps);
+    currentRequest = message.request;
+    comparisonTrace = null;
+    currentRequestId = requestId;
+    respond({
+      type: 'ready',
+      requestId,
+      length: steps.length,
+      finalStep: steps.length > 0 ? steps[steps.length - 1] : null,
+      steps: steps.slice(0, TRACE_STEP_WINDOW)
+    });
+  } else if (message.type === 'export') {
+    if (!currentTrace || !currentRequest || message.requestId !== currentRequestId) return;
+    const { requestId, format } = message;
+    try {
+      respond({ type: 'export', requestId, format, content: exportTrace(currentRequest, currentTrace, format) });
+    } catch (error) {
+      respond({ type: 'export', requestId, format, message: error instanceof Error ? error.message : String(error) });
+    }
+  } else if (message.type === 'steps') {
+    if (!currentTrace || message.requestId !== currentRequestId) return;
+    respond({
+      type: 'steps',
+      requestId: message.requestId,
+      start: message.start,
+      steps: getTraceSteps(currentTrace, message.start, message.count),
+      comparisonSteps: comparisonTrace ? getTraceSteps(comparisonTrace, message.start, message.count) : undefined
+    });
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { encryptAsconTrace, maskedPermuteAsconTrace, seededRandomWords, xofAsconTrace, AsconState } from './ascon';
+import { TRACE_FILE_FORMAT, TRACE_FILE_VERSION, exportTrace, importTrace, serializeStep } from './traceFile';
+import { TraceRequest } from './traceRequest';
+
+const KEY = Uint8Array.from({ length: 16 }, (_, i) => i);
+const NONCE = Uint8Array.from({ length: 16 }, (_, i) => 16 + i);
+
+const ENCRYPT_REQUEST: TraceRequest = {
+  algorithm: 'encrypt',
+  input: 'Hello, Ascon!',
+  key: KEY,
+  nonce: NONCE,
+  associatedData: Uint8Array.of(1, 2, 3),
+  variant: 'Ascon-AEAD128'
+};
+const encryptTrace = () => encryptAsconTrace('Hello, Ascon!', KEY, NONCE, Uint8Array.of(1, 2, 3));
+
+// Five zero words, as a file stores them
+const ZERO_STATE = Array<string>(5).fill('0'.repeat(16));
+
+// Helper function to build a JSON trace file around a request and steps
+function jsonFile(fields: Record<string, unknown>): string {
+  return JSON.stringify({
+    format: TRACE_FILE_FORMAT,
+    version: TRACE_FILE_VERSION,
+    request: { algorithm: 'hash', input: 'abc' },
+    steps: [{ step: 'Initial state', state: ZERO_STATE }],
+    ...fields
+  });
+}
+
+// Helper function to read the request of a JSON export, as stored in the file
+function exportedRequest(): Record<string, unknown> {
+  return JSON.parse(exportTrace(ENCRYPT_REQUEST, encryptTrace(), 'json')).request;
+}
+
+// Helper function to replace one line of a CSV export
+function replaceLine(csv: string, index: number, line: string): string {
+  const lines = csv.split('\n');
+  lines[index] = line;
+  return lines.join('\n');
+}
+
+describe('Trace files', () => {
+  it('reads back a JSON export with every step detail', () => {
+    const trace = encryptTrace();
+    const imported = importTrace(exportTrace(ENCRYPT_REQUEST, trace, 'json'));
+    expect(imported.request).toEqual(ENCRYPT_REQUEST);
+    expect(imported.steps).toHaveLength(trace.length);
+    imported.steps.forEach((step, i) => expect(serializeStep(step)).toEqual(serializeStep(trace.getStep(i))));
+  });
+
+  it('reads back the shares of a masked run', () => {
+    const trace = maskedPermuteAsconTrace([1n, 2n, 3n, 4n, 5n] as AsconState, 6, 3, 6, seededRandomWords(7n));
+    const imported = importTrace(exportTrace({ algorithm: 'hash', input: '' }, trace, 'json'));
+    expect(imported.steps.map(step => step.shares)).toEqual(Array.from({ length: trace.length }, (_, i) => trace.getStep(i).shares));
+  });
+
+  it('reads back the states, names and rounds of a CSV export', () => {
+    const request: TraceRequest = { algorithm: 'xof', input: 'a "quoted", text', outputLength: 40 };
+    const trace = xofAsconTrace('a "quoted", text', 40);
+    const imported = importTrace(exportTrace(request, trace, 'csv'));
+    expect(imported.request).toEqual(request);
+    imported.steps.forEach((step, i) => {
+      const original = trace.getStep(i);
+      expect(step.state).toEqual(original.state);
+      expect(step.step).toBe(original.step);
+      expect(step.roundNumber).toBe(original.roundNumber);
+      expect(step.roundConstant).toBe(original.roundConstant);
+    });
+  });
+
+  it('rejects files of another format or a newer version', () => {
+    expect(() => importTrace(jsonFile({ format: 'something-else' }))).toThrow('not an Ascon visualizer trace file');
+    expect(() => importTrace(jsonFile({ version: 2 }))).toThrow('version 2 is not supported');
+    const csv = exportTrace(ENCRYPT_REQUEST, encryptTrace(), 'csv');
+    expect(() => importTrace(replaceLine(csv, 0, `# ${TRACE_FILE_FORMAT} 1.0`))).toThrow('version 1.0 is not supported');
+    expect(() => importTrace('{ not json')).toThrow('not valid JSON');
+  });
+
+  it('rejects files without steps', () => {
+    expect(() => importTrace(jsonFile({ steps: undefined }))).toThrow('has no steps');
+    expect(() => importTrace(jsonFile({ steps: [] }))).toThrow('has no steps');
+  });
+
+  it('rejects steps that are not objects or have malformed fields', () => {
+    expect(() => importTrace(jsonFile({ steps: [null] }))).toThrow('Step 1 is not an object');
+    const step = { step: 'Initial state', state: ZERO_STATE };
+    expect(() => importTrace(jsonFile({ steps: [{ ...step, state: [...ZERO_STATE.slice(1), 'xyz'] }] }))).toThrow('16 hex digits');
+    expect(() => importTrace(jsonFile({ steps: [{ ...step, roundNumber: -1 }] }))).toThrow('roundNumber must be a whole number');
+    expect(() => importTrace(jsonFile({ steps: [{ ...step, sboxInput: [32] }] }))).toThrow('5-bit column values');
+  });
+
+  it('rejects requests with unknown or out-of-range parameters', () => {
+    expect(() => importTrace(jsonFile({ request: { ...exportedRequest(), variant: 'foo' } }))).toThrow('Unknown Ascon variant "foo"');
+    expect(() => importTrace(jsonFile({ request: { ...exportedRequest(), key: { hex: '00' } } }))).toThrow('key of the request must be exactly 16 bytes');
+    expect(() => importTrace(jsonFile({ request: { algorithm: 'xof', input: '', outputLength: 0 } }))).toThrow('output length');
+    expect(() => importTrace(jsonFile({ request: { algorithm: 'xof', input: '', outputLength: 513 } }))).toThrow('output length');
+    expect(() => importTrace(jsonFile({ request: { algorithm: 'shuffle', input: '' } }))).toThrow('Unknown algorithm');
+  });
+
+  it('rejects CSV rows with malformed fields, naming the line', () => {
+    const csv = exportTrace(ENCRYPT_REQUEST, encryptTrace(), 'csv');
+    const row = csv.split('\n')[3].split(',');
+    expect(() => importTrace(replaceLine(csv, 3, [...row.slice(0, 3), 'NaN', ...row.slice(4)].join(',')))).toThrow('Line 4: round_number must be a whole number');
+    expect(() => importTrace(replaceLine(csv, 4, [...row.slice(0, 4), '-1', ...row.slice(5)].join(',')))).toThrow('Line 5: round_constant must be a whole number');
+    expect(() => importTrace(replaceLine(csv, 5, row.slice(0, 9).join(',')))).toThrow('Line 6: expected 10 fields, got 9');
+  });
+});
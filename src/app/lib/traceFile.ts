@@ -0,0 +1,328 @@
+// Versioned trace files: a traced run saved as JSON or CSV, with its parameters, its inputs and
+// every state as hex, so it can be loaded back into the player without recomputing it
+
+import { AsconState, LazyTrace, RateByteKind, StateStep, bytesToHex, hexToBytes, isValidHex } from './ascon';
+import { TraceRequest, validateTraceRequest } from './traceRequest';
+
+export const TRACE_FILE_FORMAT = 'ascon-visualizer-trace';
+export const TRACE_FILE_VERSION = 1;
+export const TRACE_EXPORT_MAX_STEPS = 20000; // Longer traces make files too large to be useful
+
+export type TraceFileFormat = 'json' | 'csv';
+
+// Byte strings are stored as hex, wrapped so they stay distinguishable from text inputs
+type SerializedBytes = { hex: string };
+type SerializedFields<T> = { [K in keyof T]: Uint8Array extends T[K] ? Exclude<T[K], Uint8Array> | SerializedBytes : T[K] };
+type SerializeRequest<R> = R extends unknown ? SerializedFields<R> : never;
+
+// A trace request as stored in a file
+export type SerializedTraceRequest = SerializeRequest<TraceRequest>;
+
+// A step as stored in a file, with every 64-bit word as 16 hex digits
+export interface SerializedStep extends Omit<StateStep, 'state' | 'diffusionInput' | 'diffusionRotations' | 'shares'> {
+  state: string[];
+  diffusionInput?: string[];
+  diffusionRotations?: [string, string][];
+  shares?: string[][];
+}
+
+// Contents of a JSON trace file
+export interface TraceFile {
+  format: typeof TRACE_FILE_FORMAT;
+  version: number;
+  request: SerializedTraceRequest;
+  steps: SerializedStep[];
+}
+
+// A trace read back from a file
+export interface ImportedTrace {
+  request: TraceRequest;
+  steps: StateStep[];
+}
+
+const CSV_COLUMNS = ['index', 'step', 'substep', 'round_number', 'round_constant', 'x0', 'x1', 'x2', 'x3', 'x4'];
+
+// Optional step fields holding text, and those holding whole numbers
+const STEP_TEXT_FIELDS = [
+  'substep', 'associatedDataHex', 'messageBlockHex', 'digest', 'tag',
+  'plaintextChar', 'ciphertextChar', 'plaintextHex', 'ciphertextHex', 'ciphertext', 'plaintext'
+] as const;
+const STEP_NUMBER_FIELDS = ['roundNumber', 'roundConstant', 'freshRandomWords', 'processedBytes'] as const;
+const RATE_BYTE_KINDS: RateByteKind[] = ['message', 'padding', 'unused'];
+const SBOX_VALUES = 32; // Columns are 5-bit values
+
+// Helper function to write a 64-bit word as 16 hex digits, the way C prints it with %016llx
+const wordToFileHex = (word: bigint) => word.toString(16).padStart(16, '0');
+
+// Helper function to read a 64-bit word written by wordToFileHex; `where` names the step in errors
+function fileHexToWord(hex: unknown, where: string): bigint {
+  if (typeof hex !== 'string' || !/^[0-9a-fA-F]{16}$/.test(hex)) {
+    throw new Error(`${where}: expected a 64-bit word as 16 hex digits, got ${JSON.stringify(hex)}`);
+  }
+  return BigInt(`0x${hex}`);
+}
+
+// Helper function to read the five words of a state
+function fileHexToState(words: unknown, where: string): AsconState {
+  if (!Array.isArray(words) || words.length !== 5) {
+    throw new Error(`${where}: expected a state of 5 words`);
+  }
+  return words.map(word => fileHexToWord(word, where)) as AsconState;
+}
+
+// Helper function to check that a value is a whole number from 0 to max - 1
+const isCount = (value: unknown, max = Number.MAX_SAFE_INTEGER): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < max;
+
+// Stores a request's byte inputs (keys, nonces, byte messages) as hex
+export function serializeTraceRequest(request: TraceRequest): SerializedTraceRequest {
+  return Object.fromEntries(Object.entries(request).map(([name, value]) =>
+    [name, value instanceof Uint8Array ? { hex: bytesToHex(value) } : value]
+  )) as SerializedTraceRequest;
+}
+
+// Reads a request back from a file, turning hex back into bytes and checking every field
+export function deserializeTraceRequest(serialized: unknown): TraceRequest {
+  if (typeof serialized !== 'object' || serialized === null) {
+    throw new Error('The trace file has no request');
+  }
+  return validateTraceRequest(Object.fromEntries(Object.entries(serialized).map(([name, value]) => {
+    if (typeof value !== 'object' || value === null) return [name, value];
+    const { hex } = value as { hex?: unknown };
+    if (typeof hex !== 'string' || !isValidHex(hex)) {
+      throw new Error(`The ${name} of the request is not valid hex`);
+    }
+    return [name, hexToBytes(hex)];
+  })));
+}
+
+// Stores a step with all its words as hex
+export function serializeStep(step: StateStep): SerializedStep {
+  const { state, diffusionInput, diffusionRotations, shares, ...fields } = step;
+  return {
+    ...fields,
+    state: state.map(wordToFileHex),
+    ...(diffusionInput ? { diffusionInput: diffusionInput.map(wordToFileHex) } : {}),
+    ...(diffusionRotations ? { diffusionRotations: diffusionRotations.map(([a, b]) => [wordToFileHex(a), wordToFileHex(b)] as [string, string]) } : {}),
+    ...(shares ? { shares: shares.map(share => share.map(wordToFileHex)) } : {})
+  };
+}
+
+// Reads step `index` back from a JSON file, copying only the fields a step has and checking
+// the type of each
+export function deserializeStep(serialized: unknown, index: number): StateStep {
+  const where = `Step ${index + 1}`;
+  if (typeof serialized !== 'object' || serialized === null || Array.isArray(serialized)) {
+    throw new Error(`${where} is not an object`);
+  }
+  const fields = serialized as Record<string, unknown>;
+  if (typeof fields.step !== 'string') {
+    throw new Error(`${where} has no name`);
+  }
+  const step: StateStep = { step: fields.step, state: fileHexToState(fields.state, where) };
+
+  for (const name of STEP_TEXT_FIELDS) {
+    const value = fields[name];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') throw new Error(`${where}: ${name} must be text`);
+    step[name] = value;
+  }
+  for (const name of STEP_NUMBER_FIELDS) {
+    const value = fields[name];
+    if (value === undefined) continue;
+    if (!isCount(value)) throw new Error(`${where}: ${name} must be a whole number`);
+    step[name] = value;
+  }
+
+  const { sboxInput, sboxOutput, rateByteKinds, verification, diffusionInput, diffusionRotations, shares } = fields;
+  for (const [name, values] of [['sboxInput', sboxInput], ['sboxOutput', sboxOutput]] as const) {
+    if (values === undefined) continue;
+    if (!Array.isArray(values) || !values.every(value => isCount(value, SBOX_VALUES))) {
+      throw new Error(`${where}: ${name} must be a list of 5-bit column values`);
+    }
+    step[name] = values;
+  }
+  if (rateByteKinds !== undefined) {
+    if (!Array.isArray(rateByteKinds) || !rateByteKinds.every(kind => RATE_BYTE_KINDS.includes(kind))) {
+      throw new Error(`${where}: rateByteKinds must list ${RATE_BYTE_KINDS.join(', ')} bytes`);
+    }
+    step.rateByteKinds = rateByteKinds;
+  }
+  if (verification !== undefined) {
+    const { valid, receivedTag, computedTag } = (verification ?? {}) as Record<string, unknown>;
+    if (typeof valid !== 'boolean' || typeof receivedTag !== 'string' || typeof computedTag !== 'string') {
+      throw new Error(`${where}: verification needs valid, receivedTag and computedTag`);
+    }
+    step.verification = { valid, receivedTag, computedTag };
+  }
+  if (diffusionInput !== undefined) {
+    step.diffusionInput = fileHexToState(diffusionInput, where);
+  }
+  if (diffusionRotations !== undefined) {
+    if (!Array.isArray(diffusionRotations) || !diffusionRotations.every(pair => Array.isArray(pair) && pair.length === 2)) {
+      throw new Error(`${where}: diffusionRotations must be pairs of words`);
+    }
+    step.diffusionRotations = diffusionRotations.map(([a, b]) => [fileHexToWord(a, where), fileHexToWord(b, where)] as [bigint, bigint]);
+  }
+  if (shares !== undefined) {
+    if (!Array.isArray(shares)) throw new Error(`${where}: shares must be a list of states`);
+    step.shares = shares.map(share => fileHexToState(share, where));
+  }
+  return step;
+}
+
+// Helper function to quote a CSV field when it holds a comma, quote or line break
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Helper function to split one CSV line into fields, undoing csvField's quoting
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// Writes a whole trace as a file. CSV keeps one row per step with its name, round and state;
+// the other step details (S-box columns, running texts, tags) only go into JSON.
+export function exportTrace(request: TraceRequest, trace: LazyTrace, format: TraceFileFormat): string {
+  if (trace.length > TRACE_EXPORT_MAX_STEPS) {
+    throw new Error(`Traces of more than ${TRACE_EXPORT_MAX_STEPS} steps cannot be exported`);
+  }
+  const serializedRequest = serializeTraceRequest(request);
+
+  if (format === 'json') {
+    const file: TraceFile = {
+      format: TRACE_FILE_FORMAT,
+      version: TRACE_FILE_VERSION,
+      request: serializedRequest,
+      steps: Array.from({ length: trace.length }, (_, i) => serializeStep(trace.getStep(i)))
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  const lines = [
+    `# ${TRACE_FILE_FORMAT} ${TRACE_FILE_VERSION}`,
+    `# request ${JSON.stringify(serializedRequest)}`,
+    CSV_COLUMNS.join(',')
+  ];
+  for (let i = 0; i < trace.length; i++) {
+    const step = trace.getStep(i);
+    lines.push([i, step.step, step.substep, step.roundNumber, step.roundConstant, ...step.state.map(wordToFileHex)].map(csvField).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Helper function to reject files of another format or a newer version
+function checkVersion(format: unknown, version: unknown) {
+  if (format !== TRACE_FILE_FORMAT) {
+    throw new Error('This is not an Ascon visualizer trace file');
+  }
+  if (version !== TRACE_FILE_VERSION) {
+    throw new Error(`Trace file version ${version} is not supported (this visualizer reads version ${TRACE_FILE_VERSION})`);
+  }
+}
+
+// Helper function to reject files with no steps, or more than an export can hold
+function checkStepCount(count: number) {
+  if (count === 0) {
+    throw new Error('The trace file has no steps');
+  }
+  if (count > TRACE_EXPORT_MAX_STEPS) {
+    throw new Error(`The trace file has more than ${TRACE_EXPORT_MAX_STEPS} steps`);
+  }
+}
+
+// Helper function to read an optional whole-number CSV field, written in decimal or as 0x hex
+function parseCsvCount(field: string, name: string, where: string): number | undefined {
+  if (!field) return undefined;
+  if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(field)) {
+    throw new Error(`${where}: ${name} must be a whole number, got ${JSON.stringify(field)}`);
+  }
+  return Number(field);
+}
+
+// Reads a JSON or CSV trace file, telling them apart by their first character
+export function importTrace(text: string): ImportedTrace {
+  const content = text.trim();
+
+  if (content.startsWith('{')) {
+    let file: Partial<TraceFile>;
+    try {
+      file = JSON.parse(content);
+    } catch {
+      throw new Error('The trace file is not valid JSON');
+    }
+    checkVersion(file.format, file.version);
+    if (!Array.isArray(file.steps)) {
+      throw new Error('The trace file has no steps');
+    }
+    checkStepCount(file.steps.length);
+    return { request: deserializeTraceRequest(file.request), steps: file.steps.map(deserializeStep) };
+  }
+
+  // The header line is compared as text, so versions such as "1.0" are not taken for 1
+  const lines = content.split(/\r?\n/);
+  const [, format, version] = /^# (\S+) (\S+)$/.exec(lines[0] ?? '') ?? [];
+  checkVersion(format, version === String(TRACE_FILE_VERSION) ? TRACE_FILE_VERSION : version);
+  const requestLine = lines[1] ?? '';
+  if (!requestLine.startsWith('# request ')) {
+    throw new Error('The trace file has no request');
+  }
+  let request: TraceRequest;
+  try {
+    request = deserializeTraceRequest(JSON.parse(requestLine.slice('# request '.length)));
+  } catch (error) {
+    throw error instanceof SyntaxError ? new Error('The request of the trace file is not valid JSON') : error;
+  }
+  if (lines[2] !== CSV_COLUMNS.join(',')) {
+    throw new Error(`Expected the columns ${CSV_COLUMNS.join(',')}`);
+  }
+
+  const rows = lines.slice(3).map((line, i) => ({ line, where: `Line ${i + 4}` })).filter(({ line }) => line);
+  checkStepCount(rows.length);
+  const steps = rows.map(({ line, where }) => {
+    const fields = parseCsvLine(line);
+    if (fields.length !== CSV_COLUMNS.length) {
+      throw new Error(`${where}: expected ${CSV_COLUMNS.length} fields, got ${fields.length}`);
+    }
+    const [, step, substep, roundNumber, roundConstant, ...words] = fields;
+    if (!step) {
+      throw new Error(`${where}: the step has no name`);
+    }
+    const state = fileHexToState(words, where);
+    const round = parseCsvCount(roundNumber, 'round_number', where);
+    const constant = parseCsvCount(roundConstant, 'round_constant', where);
+    return {
+      step,
+      ...(substep ? { substep } : {}),
+      ...(round !== undefined ? { roundNumber: round } : {}),
+      ...(constant !== undefined ? { roundConstant: constant } : {}),
+      state
+    };
+  });
+  return { request, steps };
+}
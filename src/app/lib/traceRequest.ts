@@ -0,0 +1,224 @@
+// Serializable description of a traced computation, so traces can be built off the main thread
+
+import {
+  encryptAsconTrace,
+  decryptAsconTrace,
+  hashAsconTrace,
+  xofAsconTrace,
+  cxofAsconTrace,
+  macAsconTrace,
+  isValidHex,
+  textToBytes,
+  ASCON_VARIANTS,
+  CXOF_MAX_CUSTOMIZATION_BYTES,
+  MAC_KEY_BYTES,
+  MAC_TAG_BYTES,
+  NONCE_BYTES,
+  PRF_SHORT_MAX_BYTES,
+  AsconVariantName,
+  MacVariant,
+  LazyTrace,
+  StateStep,
+  TraceProgressCallback
+} from './ascon';
+import { TraceFileFormat } from './traceFile';
+
+export const TRACE_STEP_WINDOW = 256; // Steps moved between the worker and the page at a time
+export const MAX_OUTPUT_BYTES = 512; // Longest XOF or Ascon-Prf output the visualizer traces
+
+const ALGORITHMS: TraceRequest['algorithm'][] = ['encrypt', 'decrypt', 'hash', 'xof', 'cxof', 'mac'];
+export const MAC_VARIANTS: MacVariant[] = ['Ascon-Mac', 'Ascon-Prf', 'Ascon-PrfShort'];
+
+// Inputs of one traced algorithm run; keys and nonces are already exact-length bytes
+export type TraceRequest =
+  | {
+      algorithm: 'encrypt';
+      input: string | Uint8Array;
+      key: Uint8Array;
+      nonce: Uint8Array;
+      associatedData: string | Uint8Array;
+      variant: AsconVariantName;
+    }
+  | {
+      algorithm: 'decrypt';
+      input: string;
+      key: Uint8Array;
+      nonce: Uint8Array;
+      associatedData: string | Uint8Array;
+      variant: AsconVariantName;
+    }
+  | { algorithm: 'hash'; input: string }
+  | { algorithm: 'xof'; input: string; outputLength: number }
+  | { algorithm: 'cxof'; input: string; customization: string; outputLength: number }
+  | { algorithm: 'mac'; input: string; key: Uint8Array; variant: MacVariant; outputLength: number };
+
+// Messages from the page to the trace worker. A `comparison` request is traced alongside the
+// main one, and its steps are sent next to the main steps so the two can be diffed. `load`
+// replaces the trace with steps read from a file, and `export` writes the current trace as one.
+export type TraceWorkerRequest =
+  | { type: 'generate'; requestId: number; request: TraceRequest; comparison?: TraceRequest }
+  | { type: 'load'; requestId: number; request: TraceRequest; steps: StateStep[] }
+  | { type: 'steps'; requestId: number; start: number; count: number }
+  | { type: 'export'; requestId: number; format: TraceFileFormat };
+
+// Messages from the trace worker to the page. `ready` carries the final step and the
+// first window of steps, so the player can show the trace without another round trip.
+// With a comparison, it also carries the Hamming distance between the two states at every step.
+export type TraceWorkerResponse =
+  | { type: 'progress'; requestId: number; fraction: number }
+  | {
+      type: 'ready';
+      requestId: number;
+      length: number;
+      finalStep: StateStep | null;
+      steps: StateStep[];
+      comparisonFinalStep?: StateStep | null;
+      comparisonSteps?: StateStep[];
+      distances?: number[];
+    }
+  | { type: 'steps'; requestId: number; start: number; steps: StateStep[]; comparisonSteps?: StateStep[] }
+  | { type: 'export'; requestId: number; format: TraceFileFormat; content?: string; message?: string }
+  | { type: 'error'; requestId: number; message: string };
+
+// Build the lazy trace described by a request
+export function createTrace(request: TraceRequest, onProgress?: TraceProgressCallback): LazyTrace {
+  switch (request.algorithm) {
+    case 'encrypt':
+      return encryptAsconTrace(request.input, request.key, request.nonce, request.associatedData, request.variant, onProgress);
+    case 'decrypt':
+      return decryptAsconTrace(request.input, request.key, request.nonce, request.associatedData, request.variant, onProgress);
+    case 'hash':
+      return hashAsconTrace(request.input, onProgress);
+    case 'xof':
+      return xofAsconTrace(request.input, request.outputLength, onProgress);
+    case 'cxof':
+      return cxofAsconTrace(request.input, request.customization, request.outputLength, onProgress);
+    case 'mac':
+      return macAsconTrace(request.input, request.key, request.variant, request.outputLength, onProgress);
+  }
+}
+
+// Copy steps [start, start + count) out of a trace, clipped to its length
+export function getTraceSteps(trace: LazyTrace, start: number, count: number): StateStep[] {
+  const steps: StateStep[] = [];
+  for (let i = Math.max(start, 0); i < Math.min(start + count, trace.length); i++) {
+    steps.push(trace.getStep(i));
+  }
+  return steps;
+}
+
+// Helper function to check that a value names one of the AEAD variants
+export function isAsconVariant(value: unknown): value is AsconVariantName {
+  return Object.keys(ASCON_VARIANTS).includes(value as string);
+}
+
+// Helper function to check that a value names one of the MAC variants
+export function isMacVariant(value: unknown): value is MacVariant {
+  return MAC_VARIANTS.includes(value as MacVariant);
+}
+
+// Longest output of a MAC variant; Ascon-Mac tags and Ascon-PrfShort outputs are at most 128 bits
+export function maxMacOutputBytes(variant: MacVariant): number {
+  return variant === 'Ascon-Prf' ? MAX_OUTPUT_BYTES : MAC_TAG_BYTES;
+}
+
+// Checks a request that comes from outside the page, e.g. a trace file, field by field for its
+// algorithm, and returns a copy with only those fields
+export function validateTraceRequest(value: unknown): TraceRequest {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('The request is missing');
+  }
+  const fields = value as Record<string, unknown>;
+  const { algorithm } = fields;
+  if (!ALGORITHMS.includes(algorithm as TraceRequest['algorithm'])) {
+    throw new Error(`Unknown algorithm ${JSON.stringify(algorithm)}`);
+  }
+
+  const text = (name: string): string => {
+    if (typeof fields[name] !== 'string') {
+      throw new Error(`The ${name} of the request must be text`);
+    }
+    return fields[name];
+  };
+  const bytes = (name: string, length: number): Uint8Array => {
+    const field = fields[name];
+    if (!(field instanceof Uint8Array) || field.length !== length) {
+      throw new Error(`The ${name} of the request must be exactly ${length} bytes`);
+    }
+    return field;
+  };
+  const textOrBytes = (name: string): string | Uint8Array => {
+    const field = fields[name];
+    return field instanceof Uint8Array ? field : text(name);
+  };
+  const outputLength = (max: number): number => {
+    const field = fields.outputLength;
+    if (!Number.isInteger(field) || (field as number) < 1 || (field as number) > max) {
+      throw new Error(`The output length of the request must be a whole number of bytes from 1 to ${max}`);
+    }
+    return field as number;
+  };
+  const aeadVariant = (): AsconVariantName => {
+    if (!isAsconVariant(fields.variant)) {
+      throw new Error(`Unknown Ascon variant ${JSON.stringify(fields.variant)}`);
+    }
+    return fields.variant;
+  };
+
+  switch (algorithm as TraceRequest['algorithm']) {
+    case 'encrypt': {
+      const variant = aeadVariant();
+      return {
+        algorithm: 'encrypt',
+        input: textOrBytes('input'),
+        key: bytes('key', ASCON_VARIANTS[variant].keyBytes),
+        nonce: bytes('nonce', NONCE_BYTES),
+        associatedData: textOrBytes('associatedData'),
+        variant
+      };
+    }
+    case 'decrypt': {
+      const variant = aeadVariant();
+      const input = text('input');
+      if (!isValidHex(input) || input.length < 2 * ASCON_VARIANTS[variant].tagBytes) {
+        throw new Error(`The ciphertext of the request must be hex of at least ${ASCON_VARIANTS[variant].tagBytes} bytes`);
+      }
+      return {
+        algorithm: 'decrypt',
+        input,
+        key: bytes('key', ASCON_VARIANTS[variant].keyBytes),
+        nonce: bytes('nonce', NONCE_BYTES),
+        associatedData: textOrBytes('associatedData'),
+        variant
+      };
+    }
+    case 'hash':
+      return { algorithm: 'hash', input: text('input') };
+    case 'xof':
+      return { algorithm: 'xof', input: text('input'), outputLength: outputLength(MAX_OUTPUT_BYTES) };
+    case 'cxof': {
+      const customization = text('customization');
+      if (textToBytes(customization).length > CXOF_MAX_CUSTOMIZATION_BYTES) {
+        throw new Error(`The customization of the request must be at most ${CXOF_MAX_CUSTOMIZATION_BYTES} bytes`);
+      }
+      return { algorithm: 'cxof', input: text('input'), customization, outputLength: outputLength(MAX_OUTPUT_BYTES) };
+    }
+    case 'mac': {
+      const { variant } = fields;
+      if (!isMacVariant(variant)) {
+        throw new Error(`Unknown MAC variant ${JSON.stringify(variant)}`);
+      }
+      const input = text('input');
+      if (variant === 'Ascon-PrfShort' && textToBytes(input).length > PRF_SHORT_MAX_BYTES) {
+        throw new Error(`Ascon-PrfShort messages are at most ${PRF_SHORT_MAX_BYTES} bytes`);
+      }
+      return {
+        algorithm: 'mac',
+        input,
+        key: bytes('key', MAC_KEY_BYTES),
+        variant,
+        outputLength: outputLength(maxMacOutputBytes(variant))
+      };
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { hexToBytes } from './ascon';
+import { VisualizerLink, formatVisualizerLink, linkFromTraceRequest, parseVisualizerLink } from './visualizerLink';
+
+// Every setting, as the visualizer would hand them to formatVisualizerLink
+const SETTINGS: Required<VisualizerLink> = {
+  mode: 'encrypt',
+  input: 'Hello & welcome, Ascon!',
+  inputFormat: 'text',
+  key: '000102030405060708090a0b0c0d0e0f',
+  nonce: '101112131415161718191a1b1c1d1e1f',
+  keyFormat: 'hex',
+  textDerivation: 'pad',
+  associatedData: 'header=1',
+  associatedDataFormat: 'text',
+  variant: 'Ascon-AEAD128',
+  secondMessage: 'Another message',
+  xofVariant: 'cxof',
+  outputLength: 64,
+  customization: 'my app',
+  macVariant: 'Ascon-Prf',
+  macOutputLength: 100,
+  stepIndex: 41,
+  animationSpeed: 800
+};
+
+// Helper function to format settings and read them back the way the page receives them
+const roundTrip = (link: Required<VisualizerLink>) =>
+  parseVisualizerLink(Object.fromEntries(new URLSearchParams(formatVisualizerLink(link))));
+
+describe('Visualizer links', () => {
+  it('reads back the settings an AEAD link carries', () => {
+    expect(roundTrip(SETTINGS)).toEqual({
+      mode: 'encrypt',
+      input: SETTINGS.input,
+      inputFormat: 'text',
+      key: SETTINGS.key,
+      nonce: SETTINGS.nonce,
+      keyFormat: 'hex',
+      associatedData: 'header=1',
+      associatedDataFormat: 'text',
+      variant: 'Ascon-AEAD128',
+      stepIndex: 41,
+      animationSpeed: 800
+    });
+  });
+
+  it('writes only the parameters a mode uses', () => {
+    expect(roundTrip({ ...SETTINGS, mode: 'xof' })).toMatchObject({ mode: 'xof', xofVariant: 'cxof', outputLength: 64, customization: 'my app', key: undefined });
+    expect(roundTrip({ ...SETTINGS, mode: 'mac' })).toMatchObject({ mode: 'mac', key: SETTINGS.key, macVariant: 'Ascon-Prf', macOutputLength: 100, nonce: undefined });
+    expect(roundTrip({ ...SETTINGS, mode: 'nonceReuse' })).toMatchObject({ secondMessage: 'Another message', inputFormat: undefined });
+    expect(roundTrip({ ...SETTINGS, keyFormat: 'text' }).textDerivation).toBe('pad');
+  });
+
+  it('counts steps from 1', () => {
+    expect(formatVisualizerLink(SETTINGS)).toContain('step=42');
+    expect(parseVisualizerLink({ step: '1' }).stepIndex).toBe(0);
+    expect(parseVisualizerLink({ step: '0' }).stepIndex).toBe(0);
+  });
+
+  it('ignores values that are not one of the choices', () => {
+    expect(parseVisualizerLink({ mode: 'shuffle', variant: 'foo', keyFormat: 'base64', mac: 'Ascon-Mac2', xof: 'shake' })).toMatchObject(
+      { mode: undefined, variant: undefined, keyFormat: undefined, macVariant: undefined, xofVariant: undefined }
+    );
+  });
+
+  it('ignores numbers that are not whole and clamps the others to their range', () => {
+    expect(parseVisualizerLink({ speed: 'fast', length: '2.5', step: '' })).toMatchObject({ animationSpeed: undefined, outputLength: undefined, stepIndex: undefined });
+    expect(parseVisualizerLink({ speed: '10', length: '100000' })).toMatchObject({ animationSpeed: 200, outputLength: 512 });
+    expect(parseVisualizerLink({ speed: '99999' }).animationSpeed).toBe(2000);
+  });
+
+  it('clamps the MAC length to what the MAC variant allows', () => {
+    expect(parseVisualizerLink({ mac: 'Ascon-Mac', macLength: '100' }).macOutputLength).toBe(16);
+    expect(parseVisualizerLink({ mac: 'Ascon-Prf', macLength: '100' }).macOutputLength).toBe(100);
+    expect(parseVisualizerLink({ macLength: '100' }).macOutputLength).toBe(16);
+  });
+
+  it('takes the first value of a repeated parameter', () => {
+    expect(parseVisualizerLink({ mode: ['hash', 'xof'], input: ['first', 'second'] })).toMatchObject({ mode: 'hash', input: 'first' });
+  });
+});
+
+describe('Links from trace requests', () => {
+  const key = Uint8Array.from({ length: 16 }, (_, i) => i);
+  const nonce = Uint8Array.from({ length: 16 }, (_, i) => 16 + i);
+
+  it('shows keys and nonces as hex, and associated data in the format it was given', () => {
+    expect(linkFromTraceRequest({ algorithm: 'encrypt', input: 'hi', key, nonce, associatedData: Uint8Array.of(0xab), variant: 'Ascon-128a' })).toEqual({
+      mode: 'encrypt',
+      input: 'hi',
+      inputFormat: 'text',
+      keyFormat: 'hex',
+      key: SETTINGS.key,
+      nonce: SETTINGS.nonce,
+      associatedDataFormat: 'hex',
+      associatedData: 'ab',
+      variant: 'Ascon-128a'
+    });
+    expect(linkFromTraceRequest({ algorithm: 'decrypt', input: '00'.repeat(16), key, nonce, associatedData: 'text', variant: 'Ascon-AEAD128' }))
+      .toMatchObject({ mode: 'decrypt', associatedDataFormat: 'text', associatedData: 'text' });
+  });
+
+  it('keeps byte messages that are not valid UTF-8 as hex through a link', () => {
+    const input = Uint8Array.of(0xff, 0x00, 0xc3, 0x28);
+    const link = linkFromTraceRequest({ algorithm: 'encrypt', input, key, nonce, associatedData: '', variant: 'Ascon-AEAD128' });
+    expect(link).toMatchObject({ input: 'ff00c328', inputFormat: 'hex' });
+
+    const restored = roundTrip({ ...SETTINGS, input: 'ff00c328', inputFormat: 'hex' });
+    expect(restored).toMatchObject({ input: 'ff00c328', inputFormat: 'hex' });
+    expect(hexToBytes(restored.input ?? '')).toEqual(input);
+  });
+
+  it('opens hash, XOF and MAC requests in their modes', () => {
+    expect(linkFromTraceRequest({ algorithm: 'hash', input: 'abc' })).toEqual({ mode: 'hash', input: 'abc' });
+    expect(linkFromTraceRequest({ algorithm: 'xof', input: 'abc', outputLength: 8 })).toEqual({ mode: 'xof', input: 'abc', xofVariant: 'xof', outputLength: 8 });
+    expect(linkFromTraceRequest({ algorithm: 'cxof', input: 'abc', customization: 'c', outputLength: 8 }))
+      .toEqual({ mode: 'xof', input: 'abc', xofVariant: 'cxof', customization: 'c', outputLength: 8 });
+    expect(linkFromTraceRequest({ algorithm: 'mac', input: 'abc', key, variant: 'Ascon-Prf', outputLength: 32 }))
+      .toEqual({ mode: 'mac', input: 'abc', keyFormat: 'hex', key: SETTINGS.key, macVariant: 'Ascon-Prf', macOutputLength: 32 });
+  });
+});
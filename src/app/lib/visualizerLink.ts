@@ -0,0 +1,155 @@
+// Deep links into the visualizer: its inputs, the step shown and the animation speed as URL
+// query parameters, so a link can open e.g. on the final permutation of a chosen message.
+// Inputs restored from a trace file take the same form, so the page applies both the same way.
+
+import { AsconVariantName, MacVariant, TextKeyDerivation, bytesToHex } from './ascon';
+import { MAC_VARIANTS, MAX_OUTPUT_BYTES, TraceRequest, isAsconVariant, maxMacOutputBytes } from './traceRequest';
+
+export type VisualizerMode = 'encrypt' | 'decrypt' | 'hash' | 'xof' | 'mac' | 'nonceReuse' | 'tamper';
+
+const MODES: VisualizerMode[] = ['encrypt', 'decrypt', 'hash', 'xof', 'mac', 'nonceReuse', 'tamper'];
+const MIN_ANIMATION_SPEED = 200; // ms per step, as on the speed slider
+const MAX_ANIMATION_SPEED = 2000;
+
+export const LINK_MAX_LENGTH = 4000; // Longer links are cut off by some browsers and chat apps
+
+// Settings a link or trace file can carry; anything missing keeps the visualizer's current value
+export interface VisualizerLink {
+  mode?: VisualizerMode;
+  input?: string;
+  inputFormat?: 'text' | 'hex'; // How an encryption message is entered
+  key?: string;
+  nonce?: string;
+  keyFormat?: 'hex' | 'text';
+  textDerivation?: TextKeyDerivation;
+  associatedData?: string;
+  associatedDataFormat?: 'text' | 'hex';
+  variant?: AsconVariantName;
+  secondMessage?: string;
+  xofVariant?: 'xof' | 'cxof';
+  outputLength?: number;
+  customization?: string;
+  macVariant?: MacVariant;
+  macOutputLength?: number;
+  stepIndex?: number; // Zero-based, though the link counts steps from 1 as the player shows them
+  animationSpeed?: number;
+}
+
+// Query parameters as Next.js passes them to a page
+export type LinkParams = Record<string, string | string[] | undefined>;
+
+// Helper function to read a parameter, taking the first value of a repeated one
+function readParam(params: LinkParams, name: string): string | undefined {
+  const value = params[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Helper function to read a parameter that must be one of a few values
+function readChoice<T extends string>(params: LinkParams, name: string, choices: readonly T[]): T | undefined {
+  const value = readParam(params, name);
+  return choices.includes(value as T) ? value as T : undefined;
+}
+
+// Helper function to read a whole number, clamped to [min, max]
+function readInteger(params: LinkParams, name: string, min: number, max: number): number | undefined {
+  const text = readParam(params, name);
+  const value = Number(text);
+  return text && Number.isInteger(value) ? Math.min(max, Math.max(min, value)) : undefined;
+}
+
+// Reads the settings in a link, skipping parameters that are missing or invalid
+export function parseVisualizerLink(params: LinkParams): VisualizerLink {
+  const macVariant = readChoice(params, 'mac', MAC_VARIANTS);
+  const variant = readParam(params, 'variant');
+  const step = readInteger(params, 'step', 1, Number.MAX_SAFE_INTEGER);
+  return {
+    mode: readChoice(params, 'mode', MODES),
+    input: readParam(params, 'input'),
+    inputFormat: readChoice(params, 'inputFormat', ['text', 'hex'] as const),
+    key: readParam(params, 'key'),
+    nonce: readParam(params, 'nonce'),
+    keyFormat: readChoice(params, 'keyFormat', ['hex', 'text'] as const),
+    textDerivation: readChoice(params, 'derivation', ['pad', 'hash'] as const),
+    associatedData: readParam(params, 'ad'),
+    associatedDataFormat: readChoice(params, 'adFormat', ['text', 'hex'] as const),
+    variant: isAsconVariant(variant) ? variant : undefined,
+    secondMessage: readParam(params, 'p2'),
+    xofVariant: readChoice(params, 'xof', ['xof', 'cxof'] as const),
+    outputLength: readInteger(params, 'length', 1, MAX_OUTPUT_BYTES),
+    customization: readParam(params, 'customization'),
+    macVariant,
+    macOutputLength: readInteger(params, 'macLength', 1, maxMacOutputBytes(macVariant ?? 'Ascon-Mac')),
+    stepIndex: step === undefined ? undefined : step - 1,
+    animationSpeed: readInteger(params, 'speed', MIN_ANIMATION_SPEED, MAX_ANIMATION_SPEED)
+  };
+}
+
+// The inputs a trace request was made from, as the visualizer shows them: keys and nonces as
+// hex, and byte messages and associated data as hex, since their bytes need not be valid UTF-8.
+// The request has been checked already (see validateTraceRequest), so every field is known to be valid.
+export function linkFromTraceRequest(request: TraceRequest): VisualizerLink {
+  switch (request.algorithm) {
+    case 'encrypt':
+    case 'decrypt':
+      return {
+        mode: request.algorithm,
+        input: typeof request.input === 'string' ? request.input : bytesToHex(request.input),
+        // Decryption takes its ciphertext as hex whatever the format, so only encryption sets it
+        inputFormat: request.algorithm === 'encrypt' ? typeof request.input === 'string' ? 'text' : 'hex' : undefined,
+        keyFormat: 'hex',
+        key: bytesToHex(request.key),
+        nonce: bytesToHex(request.nonce),
+        associatedDataFormat: typeof request.associatedData === 'string' ? 'text' : 'hex',
+        associatedData: typeof request.associatedData === 'string' ? request.associatedData : bytesToHex(request.associatedData),
+        variant: request.variant
+      };
+    case 'hash':
+      return { mode: 'hash', input: request.input };
+    case 'xof':
+      return { mode: 'xof', input: request.input, xofVariant: 'xof', outputLength: request.outputLength };
+    case 'cxof':
+      return { mode: 'xof', input: request.input, xofVariant: 'cxof', customization: request.customization, outputLength: request.outputLength };
+    case 'mac':
+      return {
+        mode: 'mac',
+        input: request.input,
+        keyFormat: 'hex',
+        key: bytesToHex(request.key),
+        macVariant: request.variant,
+        macOutputLength: request.outputLength
+      };
+  }
+}
+
+// Writes the settings as a query string, with only the parameters the mode uses
+export function formatVisualizerLink(link: Required<VisualizerLink>): string {
+  const params = new URLSearchParams({ mode: link.mode, input: link.input });
+  const usesKey = link.mode !== 'hash' && link.mode !== 'xof';
+  const isAead = usesKey && link.mode !== 'mac';
+
+  if (usesKey) {
+    params.set('key', link.key);
+    params.set('keyFormat', link.keyFormat);
+    if (link.keyFormat === 'text') params.set('derivation', link.textDerivation);
+  }
+  if (isAead) {
+    params.set('nonce', link.nonce);
+    params.set('ad', link.associatedData);
+    params.set('adFormat', link.associatedDataFormat);
+    params.set('variant', link.variant);
+  }
+  if (link.mode === 'encrypt') params.set('inputFormat', link.inputFormat);
+  if (link.mode === 'nonceReuse') params.set('p2', link.secondMessage);
+  if (link.mode === 'xof') {
+    params.set('xof', link.xofVariant);
+    params.set('length', String(link.outputLength));
+    if (link.xofVariant === 'cxof') params.set('customization', link.customization);
+  }
+  if (link.mode === 'mac') {
+    params.set('mac', link.macVariant);
+    params.set('macLength', String(link.macOutputLength));
+  }
+  params.set('step', String(link.stepIndex + 1));
+  params.set('speed', String(link.animationSpeed));
+  return params.toString();
+}
@@ -1,9 +1,13 @@
 import AsconVisualizer from './components/AsconVisualizer';
+import { LinkParams, parseVisualizerLink } from './lib/visualizerLink';
+
+// A link such as /?mode=hash&input=abc&step=20 opens the visualizer on those inputs and that step
+export default async function Home({ searchParams }: { searchParams: Promise<LinkParams> }) {
+  const link = parseVisualizerLink(await searchParams);
 
-export default function Home() {
   return (
     <div className="min-h-screen p-4 py-8">
-      <AsconVisualizer />
+      <AsconVisualizer link={link} />
     </div>
   );
 }
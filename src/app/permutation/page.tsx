@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import PermutationPlayground from '../components/PermutationPlayground';
+import BitDependencyHeatmap from '../components/BitDependencyHeatmap';
+
+export const metadata: Metadata = {
+  title: "Ascon Permutation Playground",
+  description: "Step through any number of rounds of the Ascon permutation on a state of your choice, and see how fast its bits depend on each other.",
+};
+
+export default function PermutationPage() {
+  return (
+    <div className="min-h-screen p-4 py-8 space-y-8">
+      <PermutationPlayground />
+      <BitDependencyHeatmap />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import SboxAnalysis from '../components/SboxAnalysis';
+
+export const metadata: Metadata = {
+  title: "Ascon S-box Analysis",
+  description: "Difference distribution table, linear approximation table, algebraic normal form and branch numbers of the Ascon 5-bit S-box.",
+};
+
+export default function SboxPage() {
+  return (
+    <div className="min-h-screen p-4 py-8">
+      <SboxAnalysis />
+    </div>
+  );
+}